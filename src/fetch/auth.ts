@@ -0,0 +1,441 @@
+import { FetchError, type FetchAuth, type FetchMiddlewareNext } from './defines.ts';
+import { digest, toHex } from './utils.ts';
+
+/**
+ * Options for `createBearerAuth`.
+ *
+ * @since 1.10.0
+ */
+export interface BearerAuthOptions {
+    /**
+     * Returns the current access token, called for every request.
+     * When it returns `undefined`, the request is sent without `Authorization` header.
+     */
+    getToken: () => string | undefined | Promise<string | undefined>;
+
+    /**
+     * Obtains a new access token after a `401` response and returns it.
+     *
+     * It should also store the new token, so that `getToken` returns it from then on.
+     * Concurrent `401` responses share a single call.
+     */
+    refreshToken: () => string | Promise<string>;
+
+    /**
+     * Authorization scheme put before the token.
+     *
+     * @defaultValue 'Bearer'
+     */
+    scheme?: string;
+}
+
+/**
+ * Options for `createDigestAuth`.
+ *
+ * @since 1.10.0
+ */
+export interface DigestAuthOptions {
+    /**
+     * The user name.
+     */
+    username: string;
+
+    /**
+     * The password.
+     */
+    password: string;
+
+    /**
+     * Generates the client nonce `cnonce` of every request.
+     *
+     * @defaultValue 16 random bytes, hex-encoded
+     */
+    cnonce?: () => string;
+}
+
+/**
+ * Creates a `FetchAuth` attaching a bearer token to every request and refreshing it on `401`.
+ *
+ * When a response is `401 Unauthorized`, the token is refreshed once and the request is replayed
+ * with the new token, transparently to the caller. Concurrent `401` responses share a single refresh,
+ * requests sent while a refresh is in progress wait for it, and a `401` for a token that has already
+ * been refreshed since is replayed without refreshing again. A replayed request is not refreshed again.
+ *
+ * If the refresh fails, the request fails with the `FetchError` of the `401` response, with the
+ * refresh error as its `cause`.
+ *
+ * @param options - Bearer auth options.
+ * @returns A `FetchAuth` for the `auth` option.
+ * @throws {TypeError} If `getToken` or `refreshToken` is not a function, or `scheme` is not a string.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createBearerAuth, createFetchT } from '@happy-ts/fetch-t';
+ *
+ * let accessToken = localStorage.getItem('accessToken') ?? undefined;
+ *
+ * const api = createFetchT({
+ *     baseURL: 'https://api.example.com/',
+ *     auth: createBearerAuth({
+ *         getToken: () => accessToken,
+ *         refreshToken: async () => {
+ *             const response = await fetch('https://auth.example.com/refresh', { method: 'POST', credentials: 'include' });
+ *             if (!response.ok) {
+ *                 throw new Error(`Refresh failed with status ${ response.status }`);
+ *             }
+ *             accessToken = (await response.json() as { accessToken: string }).accessToken;
+ *             return accessToken;
+ *         },
+ *     }),
+ * });
+ * ```
+ */
+export function createBearerAuth(options: BearerAuthOptions): FetchAuth {
+    const {
+        getToken,
+        refreshToken,
+        scheme = 'Bearer',
+    } = options;
+
+    for (const [name, value] of Object.entries({ getToken, refreshToken })) {
+        if (typeof value !== 'function') {
+            throw new TypeError(`${ name } must be a function but received ${ typeof value }`);
+        }
+    }
+    if (typeof scheme !== 'string') {
+        throw new TypeError(`scheme must be a string but received ${ typeof scheme }`);
+    }
+
+    // Incremented after every successful refresh, to recognize 401 responses to outdated tokens
+    let generation = 0;
+    let refreshing: Promise<string> | undefined;
+
+    const refresh = (): Promise<string> => {
+        refreshing ??= Promise.resolve()
+            .then(refreshToken)
+            .then(token => {
+                generation += 1;
+                return token;
+            })
+            .finally(() => {
+                refreshing = undefined;
+            });
+
+        return refreshing;
+    };
+
+    const authorize = (request: Request, token: string | undefined): Request => {
+        if (token == null) {
+            return request;
+        }
+
+        const headers = new Headers(request.headers);
+        headers.set('authorization', `${ scheme } ${ token }`);
+
+        return new Request(request, { headers });
+    };
+
+    return Object.freeze({
+        async execute(request: Request, next: FetchMiddlewareNext): Promise<Response> {
+            // The body of the first request is consumed when sent, keep a copy for the replay
+            const replay = request.body == null ? request : request.clone();
+
+            if (refreshing) {
+                // Do not send a token known to be expired, a failed refresh is reported by its own request
+                await refreshing.catch(() => undefined);
+            }
+
+            const sentGeneration = generation;
+            const response = await next(authorize(request, await getToken()));
+
+            if (response.status !== 401) {
+                return response;
+            }
+
+            // Release the rejected response before replaying
+            response.body?.cancel().catch(() => {
+                // Silently ignore stream cancel errors
+            });
+
+            let token: string | undefined;
+            try {
+                token = sentGeneration === generation
+                    ? await refresh()
+                    // Another request refreshed the token after this one was sent
+                    : await getToken();
+            } catch (err) {
+                throw new FetchError(response.statusText, response.status, response.headers, { cause: err });
+            }
+
+            return next(authorize(replay, token));
+        },
+    });
+}
+
+/**
+ * Creates a `FetchAuth` answering HTTP Digest authentication challenges (RFC 7616).
+ *
+ * When a response is `401 Unauthorized` with a `WWW-Authenticate: Digest` challenge, the response
+ * to the challenge is computed and the request is replayed once, transparently to the caller.
+ * The `SHA-256` and `MD5` algorithms and their `-sess` variants are supported with `qop=auth`,
+ * as well as challenges without `qop` (RFC 2069), preferring `SHA-256` when several are offered.
+ *
+ * The nonce is then reused for later requests to the same protection space, counting them with `nc`,
+ * so they are authorized without the extra round trip. A protection space is the origin and `realm`
+ * of the challenge, and covers the URIs of its `domain` parameter, or else the directory of the
+ * challenged request. When the server rejects a reused nonce, e.g. with `stale=true`, the request
+ * is replayed with the new challenge.
+ *
+ * @param options - Digest auth options.
+ * @returns A `FetchAuth` for the `auth` option.
+ * @throws {TypeError} If `username` or `password` is not a string, or `cnonce` is provided but not a function.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createDigestAuth, createFetchT } from '@happy-ts/fetch-t';
+ *
+ * const appliance = createFetchT({
+ *     baseURL: 'http://192.168.1.20/',
+ *     auth: createDigestAuth({ username: 'admin', password: process.env.APPLIANCE_PASSWORD! }),
+ * });
+ *
+ * const result = await appliance('cgi-bin/status', { responseType: 'json' });
+ * ```
+ */
+export function createDigestAuth(options: DigestAuthOptions): FetchAuth {
+    const {
+        username,
+        password,
+        cnonce = () => toHex(crypto.getRandomValues(new Uint8Array(16)).buffer),
+    } = options;
+
+    for (const [name, value] of Object.entries({ username, password })) {
+        if (typeof value !== 'string') {
+            throw new TypeError(`${ name } must be a string but received ${ typeof value }`);
+        }
+    }
+    if (typeof cnonce !== 'function') {
+        throw new TypeError(`cnonce must be a function but received ${ typeof cnonce }`);
+    }
+
+    // The last challenge of every protection space, keyed by origin and realm
+    const sessions = new Map<string, DigestSession>();
+    // URL prefixes known to belong to a protection space, mapped to its key
+    const spaces = new Map<string, string>();
+
+    const findSession = (url: string): DigestSession | undefined => {
+        let key: string | undefined;
+        let longest = -1;
+
+        for (const [prefix, spaceKey] of spaces) {
+            if (prefix.length > longest && url.startsWith(prefix)) {
+                key = spaceKey;
+                longest = prefix.length;
+            }
+        }
+
+        return key == null ? undefined : sessions.get(key);
+    };
+
+    const addSession = (url: URL, challenge: DigestChallenge): DigestSession => {
+        const key = `${ url.origin } ${ challenge.realm }`;
+        const session: DigestSession = { key, challenge, count: 0 };
+        sessions.set(key, session);
+
+        const prefixes = challenge.domain?.split(/\s+/).filter(Boolean) ?? [url.pathname.slice(0, url.pathname.lastIndexOf('/') + 1)];
+        for (const prefix of prefixes) {
+            try {
+                spaces.set(new URL(prefix, url).href, key);
+            } catch {
+                // Ignore invalid domain URIs
+            }
+        }
+
+        return session;
+    };
+
+    const authorize = async (request: Request, session: DigestSession): Promise<Request> => {
+        const { challenge } = session;
+        const { realm, nonce, qop, opaque } = challenge;
+
+        // Counted before any await, concurrent requests must not share a count
+        session.count += 1;
+        const nc = session.count.toString(16).padStart(8, '0');
+        const clientNonce = cnonce();
+
+        const hash = async (value: string): Promise<string> => toHex(await digest(challenge.hash, new TextEncoder().encode(value)));
+
+        // With -sess, the session key is derived once from the first client nonce
+        session.ha1 ??= hash(`${ username }:${ realm }:${ password }`)
+            .then(ha1 => (challenge.sess ? hash(`${ ha1 }:${ nonce }:${ clientNonce }`) : ha1));
+
+        const url = new URL(request.url);
+        const uri = `${ url.pathname }${ url.search }`;
+
+        const ha1 = await session.ha1;
+        const ha2 = await hash(`${ request.method }:${ uri }`);
+
+        const params = [
+            `username=${ quote(username) }`,
+            `realm=${ quote(realm) }`,
+            `uri=${ quote(uri) }`,
+            `algorithm=${ challenge.algorithm }`,
+            `nonce=${ quote(nonce) }`,
+        ];
+
+        let response: string;
+        if (qop) {
+            params.push(`nc=${ nc }`, `cnonce=${ quote(clientNonce) }`, 'qop=auth');
+            response = await hash(`${ ha1 }:${ nonce }:${ nc }:${ clientNonce }:auth:${ ha2 }`);
+        } else {
+            response = await hash(`${ ha1 }:${ nonce }:${ ha2 }`);
+        }
+
+        params.push(`response=${ quote(response) }`);
+        if (opaque != null) {
+            params.push(`opaque=${ quote(opaque) }`);
+        }
+
+        const headers = new Headers(request.headers);
+        headers.set('authorization', `Digest ${ params.join(', ') }`);
+
+        return new Request(request, { headers });
+    };
+
+    return Object.freeze({
+        async execute(request: Request, next: FetchMiddlewareNext): Promise<Response> {
+            // The body of the first request is consumed when sent, keep a copy for the replay
+            const replay = request.body == null ? request : request.clone();
+
+            const url = new URL(request.url);
+            const sent = findSession(url.href);
+
+            const response = await next(sent ? await authorize(request, sent) : request);
+
+            if (response.status !== 401) {
+                return response;
+            }
+
+            const challenge = selectDigestChallenge(response.headers.get('www-authenticate'));
+
+            // The credentials themselves were rejected, replaying would not help
+            if (challenge == null || (sent?.challenge.nonce === challenge.nonce && !challenge.stale)) {
+                if (sent != null) {
+                    sessions.delete(sent.key);
+                }
+                return response;
+            }
+
+            // Release the rejected response before replaying
+            response.body?.cancel().catch(() => {
+                // Silently ignore stream cancel errors
+            });
+
+            const session = addSession(url, challenge);
+
+            const replayed = await next(await authorize(replay, session));
+            if (replayed.status === 401) {
+                sessions.delete(session.key);
+            }
+
+            return replayed;
+        },
+    });
+}
+
+/**
+ * A Digest challenge supported by `createDigestAuth`.
+ */
+interface DigestChallenge {
+    realm: string;
+    nonce: string;
+    opaque?: string;
+    /**
+     * Space-separated URIs of the protection space.
+     */
+    domain?: string;
+    /**
+     * The algorithm as sent by the server.
+     */
+    algorithm: string;
+    hash: 'MD5' | 'SHA-256';
+    sess: boolean;
+    qop: boolean;
+    stale: boolean;
+}
+
+/**
+ * A challenge answered by the requests to a protection space.
+ */
+interface DigestSession {
+    /**
+     * The origin and realm of the protection space.
+     */
+    key: string;
+    challenge: DigestChallenge;
+    /**
+     * The nonce count of the last request sent.
+     */
+    count: number;
+    ha1?: Promise<string>;
+}
+
+/**
+ * Picks the strongest supported Digest challenge of a `WWW-Authenticate` header (RFC 9110, section 11.6.1).
+ */
+function selectDigestChallenge(header: string | null): DigestChallenge | undefined {
+    if (header == null) {
+        return;
+    }
+
+    const challenges: { scheme: string; params: Map<string, string>; }[] = [];
+
+    // A token without value starts a new challenge, a name=value pair is one of its parameters
+    for (const [, name, quoted, token] of header.matchAll(/([\w!#$%&'*+.^`|~-]+)(?:\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]*)))?/g)) {
+        if (quoted == null && token == null) {
+            challenges.push({ scheme: name.toLowerCase(), params: new Map() });
+        } else {
+            challenges.at(-1)?.params.set(name.toLowerCase(), quoted?.replace(/\\(.)/g, '$1') ?? token);
+        }
+    }
+
+    let selected: DigestChallenge | undefined;
+
+    for (const { scheme, params } of challenges) {
+        const realm = params.get('realm');
+        const nonce = params.get('nonce');
+        const algorithm = params.get('algorithm') ?? 'MD5';
+        const qop = params.get('qop')?.split(',').map(value => value.trim().toLowerCase());
+        const match = /^(MD5|SHA-256)(-sess)?$/i.exec(algorithm);
+
+        if (scheme !== 'digest' || realm == null || nonce == null || match == null || (qop != null && !qop.includes('auth'))) {
+            continue;
+        }
+
+        const hash = match[1].toUpperCase() as DigestChallenge['hash'];
+        if (selected?.hash === 'SHA-256' && hash === 'MD5') {
+            continue;
+        }
+
+        selected = {
+            realm,
+            nonce,
+            opaque: params.get('opaque'),
+            domain: params.get('domain'),
+            algorithm,
+            hash,
+            sess: match[2] != null,
+            qop: qop != null,
+            stale: params.get('stale')?.toLowerCase() === 'true',
+        };
+    }
+
+    return selected;
+}
+
+/**
+ * Formats a quoted-string (RFC 9110, section 5.6.4).
+ */
+function quote(value: string): string {
+    return `"${ value.replace(/["\\]/g, '\\$&') }"`;
+}
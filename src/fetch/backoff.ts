@@ -0,0 +1,86 @@
+import type { FetchBackoffOptions } from './defines.ts';
+
+/**
+ * Default `factor` of each strategy.
+ */
+const DEFAULT_FACTORS = {
+    exponential: 2,
+    linear: 1,
+    fullJitter: 2,
+    decorrelatedJitter: 3,
+} as const;
+
+/**
+ * Creates a retry delay function from a named backoff strategy.
+ *
+ * Each call returns a new function with its own state, which matters for
+ * `decorrelatedJitter` since every delay depends on the previous one.
+ * `fetchT` calls this automatically when `retry.delay` is a `FetchBackoffOptions` object.
+ *
+ * @param options - The backoff strategy and its parameters.
+ * @returns A function returning the delay in milliseconds for an attempt number (1-indexed).
+ * @throws {TypeError} If `strategy` is not a valid strategy or `random` is not a function.
+ * @throws {TypeError} If `base`, `factor` or `max` is not a number.
+ * @throws {Error} If `base`, `factor` or `max` is negative.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createBackoff } from '@happy-ts/fetch-t';
+ *
+ * const delay = createBackoff({ strategy: 'exponential', base: 100, max: 1000 });
+ * delay(1); // 100
+ * delay(2); // 200
+ * delay(5); // 1000 (capped)
+ *
+ * // Deterministic jitter in tests
+ * const jittered = createBackoff({ strategy: 'fullJitter', base: 100, random: () => 0.5 });
+ * jittered(3); // 200
+ * ```
+ */
+export function createBackoff(options: FetchBackoffOptions): (attempt: number) => number {
+    const {
+        strategy,
+        base = 100,
+        max = 30_000,
+        random = Math.random,
+    } = options;
+
+    if (!Object.hasOwn(DEFAULT_FACTORS, strategy)) {
+        throw new TypeError(`Backoff strategy must be one of ${ Object.keys(DEFAULT_FACTORS).join(', ') } but received ${ strategy }`);
+    }
+
+    const factor = options.factor ?? DEFAULT_FACTORS[strategy];
+
+    for (const [name, value] of Object.entries({ base, factor, max })) {
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+            throw new TypeError(`Backoff ${ name } must be a number but received ${ typeof value }`);
+        }
+        if (value < 0) {
+            throw new Error(`Backoff ${ name } must be a non-negative number but received ${ value }`);
+        }
+    }
+
+    if (typeof random !== 'function') {
+        throw new TypeError(`Backoff random must be a function but received ${ typeof random }`);
+    }
+
+    switch (strategy) {
+        case 'exponential': {
+            return attempt => Math.min(max, base * factor ** (attempt - 1));
+        }
+        case 'linear': {
+            return attempt => Math.min(max, base * (1 + factor * (attempt - 1)));
+        }
+        case 'fullJitter': {
+            return attempt => random() * Math.min(max, base * factor ** (attempt - 1));
+        }
+        default: {
+            // decorrelatedJitter: each delay is random between base and `factor` times the previous one
+            let previous = base;
+            return () => {
+                previous = Math.min(max, base + random() * (previous * factor - base));
+                return previous;
+            };
+        }
+    }
+}
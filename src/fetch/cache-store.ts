@@ -0,0 +1,73 @@
+import type { FetchCacheEntry, FetchCacheStore } from './defines.ts';
+
+/**
+ * Options for `createMemoryCacheStore`.
+ *
+ * @since 1.10.0
+ */
+export interface MemoryCacheStoreOptions {
+    /**
+     * Maximum number of entries kept in memory.
+     * The least recently used entry is evicted when the limit is exceeded.
+     *
+     * @defaultValue 100
+     */
+    maxEntries?: number;
+}
+
+/**
+ * Creates an in-memory LRU implementation of `FetchCacheStore`.
+ *
+ * Used by default when `httpCache: true` is set.
+ *
+ * @param options - Store options.
+ * @returns A `FetchCacheStore` keeping entries in memory.
+ * @throws {Error} If `maxEntries` is not a positive integer.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createFetchT, createMemoryCacheStore } from '@happy-ts/fetch-t';
+ *
+ * const api = createFetchT({
+ *     baseURL: 'https://api.example.com/',
+ *     httpCache: createMemoryCacheStore({ maxEntries: 500 }),
+ * });
+ * ```
+ */
+export function createMemoryCacheStore(options?: MemoryCacheStoreOptions): FetchCacheStore {
+    const { maxEntries = 100 } = options ?? {};
+
+    if (!Number.isInteger(maxEntries) || maxEntries <= 0) {
+        throw new Error(`maxEntries must be a positive integer but received ${ maxEntries }`);
+    }
+
+    // Map iteration order is insertion order, so the first key is the least recently used one
+    const entries = new Map<string, FetchCacheEntry>();
+
+    return Object.freeze({
+        get(key: string): FetchCacheEntry | undefined {
+            const entry = entries.get(key);
+
+            if (entry != null) {
+                // Move to the most recently used position
+                entries.delete(key);
+                entries.set(key, entry);
+            }
+
+            return entry;
+        },
+
+        set(key: string, entry: FetchCacheEntry): void {
+            entries.delete(key);
+            entries.set(key, entry);
+
+            if (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        },
+
+        delete(key: string): void {
+            entries.delete(key);
+        },
+    });
+}
@@ -0,0 +1,268 @@
+import { createMemoryCacheStore } from './cache-store.ts';
+import type { FetchCacheEntry, FetchCacheStore, FetchMiddleware } from './defines.ts';
+
+/**
+ * Methods that never modify resources, see RFC 9110 section 9.2.1.
+ */
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE']);
+
+/**
+ * Request headers carrying credentials, matched like `Vary` headers so a response is only served to the same credentials.
+ */
+const CREDENTIAL_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+/**
+ * Store shared by all requests using `httpCache: true`, created on first use.
+ */
+let defaultCacheStore: FetchCacheStore | undefined;
+
+/**
+ * Returns the store shared by all requests using `httpCache: true`.
+ */
+export function getDefaultCacheStore(): FetchCacheStore {
+    defaultCacheStore ??= createMemoryCacheStore();
+    return defaultCacheStore;
+}
+
+/**
+ * Creates a middleware implementing a private HTTP cache (RFC 9111) on top of `store`.
+ *
+ * - Only successful `GET` responses with `max-age`, `Expires`, `ETag` or `Last-Modified` are stored,
+ *   unless they are marked `no-store` or `Vary: *`.
+ * - Entries are only served to requests with the same `Authorization`, `Cookie` and `Proxy-Authorization`
+ *   headers, since the default store is shared by every client.
+ * - Fresh entries (`Cache-Control: max-age` or `Expires`) are served without a network request.
+ * - Stale entries with `ETag`/`Last-Modified` are revalidated with `If-None-Match`/`If-Modified-Since`,
+ *   and a `304` response is turned into the cached response.
+ * - Successful unsafe requests (e.g. `POST`) invalidate the stored entry of the same URL.
+ * - `request.cache` modes `no-store`, `reload` and `no-cache` are honored.
+ *
+ * Store errors are ignored so a broken store never fails the request.
+ */
+export function createCacheMiddleware(store: FetchCacheStore): FetchMiddleware {
+    return async (request, next) => {
+        const key = request.url;
+
+        if (request.method !== 'GET') {
+            const response = await next(request);
+
+            if (!SAFE_METHODS.has(request.method) && response.status < 400) {
+                await tryStore(() => store.delete(key));
+            }
+
+            return response;
+        }
+
+        // Bypass requests the caller wants to control by itself
+        if (
+            request.cache === 'no-store'
+            || request.headers.has('if-none-match')
+            || request.headers.has('if-modified-since')
+            || request.headers.has('range')
+        ) {
+            return next(request);
+        }
+
+        let entry = request.cache === 'reload'
+            ? undefined
+            : await tryStore(() => store.get(key));
+
+        if (entry != null && !varyMatches(entry, request.headers)) {
+            entry = undefined;
+        }
+
+        if (entry != null && request.cache !== 'no-cache' && isFresh(entry)) {
+            return toResponse(entry);
+        }
+
+        let conditionalRequest = request;
+
+        if (entry != null) {
+            const storedHeaders = new Headers(entry.headers);
+            const etag = storedHeaders.get('etag');
+            const lastModified = storedHeaders.get('last-modified');
+
+            if (etag != null || lastModified != null) {
+                const headers = new Headers(request.headers);
+                if (etag != null) {
+                    headers.set('if-none-match', etag);
+                }
+                if (lastModified != null) {
+                    headers.set('if-modified-since', lastModified);
+                }
+                conditionalRequest = new Request(request, { headers });
+            }
+        }
+
+        const response = await next(conditionalRequest);
+
+        if (entry != null && response.status === 304) {
+            // Update the stored headers with the ones from the 304 response, see RFC 9111 section 4.3.4
+            const headers = new Headers(entry.headers);
+            response.headers.forEach((value, name) => {
+                headers.set(name, value);
+            });
+
+            const updated: FetchCacheEntry = {
+                ...entry,
+                headers: [...headers],
+                storedAt: Date.now(),
+            };
+
+            await tryStore(() => store.set(key, updated));
+
+            return toResponse(updated);
+        }
+
+        if (isStorable(response)) {
+            const vary: Record<string, string | null> = {};
+            for (const name of [...parseVary(response.headers), ...CREDENTIAL_HEADERS]) {
+                vary[name] = request.headers.get(name);
+            }
+
+            const body = await response.clone().arrayBuffer();
+
+            await tryStore(() => store.set(key, {
+                status: response.status,
+                statusText: response.statusText,
+                headers: [...response.headers],
+                body,
+                vary,
+                storedAt: Date.now(),
+            }));
+        }
+
+        return response;
+    };
+}
+
+/**
+ * Runs a store operation, treating any failure as a cache miss.
+ */
+async function tryStore<T>(operation: () => T | Promise<T>): Promise<T | undefined> {
+    try {
+        return await operation();
+    } catch {
+        // Silently ignore store errors
+        return undefined;
+    }
+}
+
+/**
+ * Parses the `Cache-Control` header into a map of lower-cased directives.
+ */
+function parseCacheControl(headers: Headers): Map<string, string> {
+    const directives = new Map<string, string>();
+
+    for (const part of (headers.get('cache-control') ?? '').split(',')) {
+        const [name, value = ''] = part.split('=');
+        if (name.trim()) {
+            directives.set(name.trim().toLowerCase(), value.trim().replace(/^"|"$/g, ''));
+        }
+    }
+
+    return directives;
+}
+
+/**
+ * Returns the lower-cased header names listed in the `Vary` header.
+ */
+function parseVary(headers: Headers): string[] {
+    return (headers.get('vary') ?? '')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(name => name !== '');
+}
+
+/**
+ * Whether a response may be stored.
+ *
+ * Responses without explicit freshness or validator could never be served nor revalidated,
+ * so they are not stored to keep them from evicting useful entries.
+ */
+function isStorable(response: Response): boolean {
+    if (response.status !== 200) {
+        return false;
+    }
+
+    const { headers } = response;
+    const directives = parseCacheControl(headers);
+
+    if (directives.has('no-store') || parseVary(headers).includes('*')) {
+        return false;
+    }
+
+    return directives.has('max-age')
+        || headers.has('expires')
+        || headers.has('etag')
+        || headers.has('last-modified');
+}
+
+/**
+ * Whether the request headers selected by `Vary` match the stored ones.
+ */
+function varyMatches(entry: FetchCacheEntry, headers: Headers): boolean {
+    return Object.entries(entry.vary).every(([name, value]) => headers.get(name) === value);
+}
+
+/**
+ * Returns the current age of the entry in seconds, see RFC 9111 section 4.2.3.
+ */
+function getAge(entry: FetchCacheEntry): number {
+    const ageHeader = Number.parseInt(new Headers(entry.headers).get('age') ?? '0', 10);
+    const initialAge = Number.isNaN(ageHeader) ? 0 : ageHeader;
+
+    return initialAge + Math.max(0, Date.now() - entry.storedAt) / 1000;
+}
+
+/**
+ * Returns the freshness lifetime of the entry in seconds, see RFC 9111 section 4.2.1.
+ * `s-maxage` is ignored because this is a private cache.
+ */
+function getFreshnessLifetime(entry: FetchCacheEntry): number {
+    const headers = new Headers(entry.headers);
+    const directives = parseCacheControl(headers);
+
+    if (directives.has('no-cache')) {
+        return 0;
+    }
+
+    const maxAge = directives.get('max-age');
+    if (maxAge != null) {
+        const seconds = Number.parseInt(maxAge, 10);
+        return Number.isNaN(seconds) ? 0 : seconds;
+    }
+
+    const expires = headers.get('expires');
+    if (expires != null) {
+        const expiresAt = Date.parse(expires);
+        const date = Date.parse(headers.get('date') ?? '');
+        // Invalid dates, e.g. `Expires: 0`, mean already expired
+        return Number.isNaN(expiresAt)
+            ? 0
+            : (expiresAt - (Number.isNaN(date) ? entry.storedAt : date)) / 1000;
+    }
+
+    return 0;
+}
+
+/**
+ * Whether the entry can be served without revalidation.
+ */
+function isFresh(entry: FetchCacheEntry): boolean {
+    return getAge(entry) < getFreshnessLifetime(entry);
+}
+
+/**
+ * Creates a response from a cache entry, with an up-to-date `Age` header.
+ */
+function toResponse(entry: FetchCacheEntry): Response {
+    const headers = new Headers(entry.headers);
+    headers.set('age', String(Math.floor(getAge(entry))));
+
+    return new Response(entry.body, {
+        status: entry.status,
+        statusText: entry.statusText,
+        headers,
+    });
+}
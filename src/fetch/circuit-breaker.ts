@@ -0,0 +1,288 @@
+import { ABORT_ERROR } from './constants.ts';
+import { CircuitOpenError, type FetchCircuitBreaker, type FetchCircuitState, type FetchMiddlewareNext } from './defines.ts';
+
+/**
+ * Options for `createCircuitBreaker`.
+ *
+ * @since 1.10.0
+ */
+export interface CircuitBreakerOptions {
+    /**
+     * Number of consecutive failures that opens the circuit.
+     *
+     * @defaultValue 5
+     */
+    failureThreshold?: number;
+
+    /**
+     * Failure rate between 0 and 1 over the last `windowSize` requests that opens the circuit.
+     * Disabled when not set.
+     */
+    failureRateThreshold?: number;
+
+    /**
+     * Number of most recent requests considered by `failureRateThreshold`.
+     *
+     * @defaultValue 20
+     */
+    windowSize?: number;
+
+    /**
+     * Minimum number of requests in the window before `failureRateThreshold` applies.
+     *
+     * @defaultValue 10
+     */
+    minimumRequests?: number;
+
+    /**
+     * Time in milliseconds the circuit stays open before letting a trial request through.
+     *
+     * @defaultValue 30000
+     */
+    cooldown?: number;
+
+    /**
+     * Derives the circuit key from the request URL.
+     *
+     * @defaultValue The URL origin
+     */
+    key?: (url: URL) => string;
+
+    /**
+     * Decides whether an outcome counts as a failure.
+     *
+     * @defaultValue Responses with status 500 or above and errors other than user aborts
+     */
+    isFailure?: (outcome: Response | Error) => boolean;
+
+    /**
+     * Called when a circuit changes state.
+     */
+    onStateChange?: (key: string, from: FetchCircuitState, to: FetchCircuitState) => void;
+}
+
+/**
+ * State tracked for a single circuit key.
+ */
+interface Circuit {
+    state: FetchCircuitState;
+    consecutiveFailures: number;
+    // Outcomes of the most recent requests, `true` for failures
+    window: boolean[];
+    openedAt: number;
+    trialInFlight: boolean;
+}
+
+/**
+ * Creates a circuit breaker that makes requests fail fast with `CircuitOpenError`
+ * while a downstream service is failing.
+ *
+ * Each key (by default the request origin) has its own circuit:
+ * - `closed` - requests pass through, outcomes are recorded
+ * - `open` - requests fail immediately until `cooldown` has elapsed
+ * - `half-open` - a single trial request passes through, closing the circuit
+ *   on success or opening it again on failure
+ *
+ * Share one breaker between calls through the `circuitBreaker` option, typically on a client.
+ *
+ * @param options - Circuit breaker options.
+ * @returns A `FetchCircuitBreaker`.
+ * @throws {Error} If a threshold, `windowSize`, `minimumRequests` or `cooldown` is out of range.
+ * @throws {TypeError} If `key`, `isFailure` or `onStateChange` is not a function.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createCircuitBreaker, createFetchT, CircuitOpenError } from '@happy-ts/fetch-t';
+ *
+ * const api = createFetchT({
+ *     baseURL: 'https://api.example.com/',
+ *     circuitBreaker: createCircuitBreaker({
+ *         failureThreshold: 3,
+ *         cooldown: 10000,
+ *         onStateChange: (key, from, to) => console.warn(`Circuit ${ key }: ${ from } -> ${ to }`),
+ *     }),
+ * });
+ *
+ * const result = await api('users');
+ * result.inspectErr((err) => {
+ *     if (err instanceof CircuitOpenError) {
+ *         console.log(`Retry in ${ err.retryAfter }ms`);
+ *     }
+ * });
+ * ```
+ */
+export function createCircuitBreaker(options?: CircuitBreakerOptions): FetchCircuitBreaker {
+    const {
+        failureThreshold = 5,
+        failureRateThreshold,
+        windowSize = 20,
+        minimumRequests = 10,
+        cooldown = 30_000,
+        key: getKey = (url: URL) => url.origin,
+        isFailure = defaultIsFailure,
+        onStateChange,
+    } = options ?? {};
+
+    for (const [name, value] of Object.entries({ failureThreshold, windowSize, minimumRequests })) {
+        if (!Number.isInteger(value) || value <= 0) {
+            throw new Error(`${ name } must be a positive integer but received ${ value }`);
+        }
+    }
+    if (failureRateThreshold != null && !(failureRateThreshold > 0 && failureRateThreshold <= 1)) {
+        throw new Error(`failureRateThreshold must be a number between 0 and 1 but received ${ failureRateThreshold }`);
+    }
+    if (typeof cooldown !== 'number' || !(cooldown >= 0)) {
+        throw new Error(`cooldown must be a non-negative number but received ${ cooldown }`);
+    }
+    for (const [name, value] of Object.entries({ key: getKey, isFailure })) {
+        if (typeof value !== 'function') {
+            throw new TypeError(`${ name } must be a function but received ${ typeof value }`);
+        }
+    }
+    if (onStateChange != null && typeof onStateChange !== 'function') {
+        throw new TypeError(`onStateChange must be a function but received ${ typeof onStateChange }`);
+    }
+
+    const circuits = new Map<string, Circuit>();
+
+    const getCircuit = (key: string): Circuit => {
+        let circuit = circuits.get(key);
+
+        if (circuit == null) {
+            circuit = { state: 'closed', consecutiveFailures: 0, window: [], openedAt: 0, trialInFlight: false };
+            circuits.set(key, circuit);
+        }
+
+        return circuit;
+    };
+
+    const transition = (key: string, circuit: Circuit, to: FetchCircuitState): void => {
+        const from = circuit.state;
+
+        circuit.state = to;
+        circuit.trialInFlight = false;
+
+        if (to === 'open') {
+            circuit.openedAt = Date.now();
+        } else if (to === 'closed') {
+            circuit.consecutiveFailures = 0;
+            circuit.window = [];
+        }
+
+        try {
+            onStateChange?.(key, from, to);
+        } catch {
+            // Silently ignore user callback errors
+        }
+    };
+
+    /**
+     * Moves an open circuit to half-open once the cooldown has elapsed.
+     */
+    const refresh = (key: string, circuit: Circuit): void => {
+        if (circuit.state === 'open' && Date.now() - circuit.openedAt >= cooldown) {
+            transition(key, circuit, 'half-open');
+        }
+    };
+
+    const record = (key: string, circuit: Circuit, failed: boolean): void => {
+        if (circuit.state === 'half-open') {
+            transition(key, circuit, failed ? 'open' : 'closed');
+            return;
+        }
+
+        // Outcomes of requests started before the circuit opened are ignored
+        if (circuit.state !== 'closed') {
+            return;
+        }
+
+        circuit.consecutiveFailures = failed ? circuit.consecutiveFailures + 1 : 0;
+        circuit.window.push(failed);
+        if (circuit.window.length > windowSize) {
+            circuit.window.shift();
+        }
+
+        const failures = circuit.window.filter(Boolean).length;
+        const rateExceeded = failureRateThreshold != null
+            && circuit.window.length >= minimumRequests
+            && failures / circuit.window.length >= failureRateThreshold;
+
+        if (circuit.consecutiveFailures >= failureThreshold || rateExceeded) {
+            transition(key, circuit, 'open');
+        }
+    };
+
+    const countsAsFailure = (outcome: Response | Error): boolean => {
+        try {
+            return isFailure(outcome);
+        } catch {
+            // A throwing predicate must not break the request, count it as success
+            return false;
+        }
+    };
+
+    return Object.freeze({
+        getState(key: string): FetchCircuitState {
+            const circuit = circuits.get(key);
+            if (circuit == null) {
+                return 'closed';
+            }
+
+            refresh(key, circuit);
+            return circuit.state;
+        },
+
+        reset(key?: string): void {
+            if (key == null) {
+                circuits.clear();
+            } else {
+                circuits.delete(key);
+            }
+        },
+
+        async execute(request: Request, next: FetchMiddlewareNext): Promise<Response> {
+            const key = getKey(new URL(request.url));
+            const circuit = getCircuit(key);
+
+            refresh(key, circuit);
+
+            if (circuit.state === 'open' || (circuit.state === 'half-open' && circuit.trialInFlight)) {
+                const retryAfter = circuit.state === 'open'
+                    ? Math.max(0, circuit.openedAt + cooldown - Date.now())
+                    : 0;
+                throw new CircuitOpenError(key, retryAfter);
+            }
+
+            const isTrial = circuit.state === 'half-open';
+            if (isTrial) {
+                circuit.trialInFlight = true;
+            }
+
+            let response: Response;
+            try {
+                response = await next(request);
+            } catch (err) {
+                const error = err instanceof Error ? err : new Error(String(err));
+                if (countsAsFailure(error)) {
+                    record(key, circuit, true);
+                } else if (isTrial) {
+                    // Let the next request be the trial instead
+                    circuit.trialInFlight = false;
+                }
+                throw err;
+            }
+
+            record(key, circuit, countsAsFailure(response));
+            return response;
+        },
+    });
+}
+
+/**
+ * Counts server errors and network failures, but not user aborts.
+ */
+function defaultIsFailure(outcome: Response | Error): boolean {
+    return outcome instanceof Response
+        ? outcome.status >= 500
+        : outcome.name !== ABORT_ERROR;
+}
@@ -0,0 +1,98 @@
+import type { FetchClientOptions, FetchInit, FetchResponseData, FetchResult, FetchT, FetchTask } from './defines.ts';
+import { fetchT } from './fetch.ts';
+import { validateUrl } from './utils.ts';
+
+/**
+ * Creates a `fetchT`-shaped function with shared defaults.
+ *
+ * The returned client keeps every `fetchT` overload and return type. For each call:
+ * - Relative URLs are resolved against `baseURL`.
+ * - `headers` are merged with the default headers, per-call values win on conflicts.
+ * - `middleware` are concatenated, client middleware run before per-call middleware.
+ * - `query` objects are shallow-merged, per-call values win on conflicts.
+ * - Any other `FetchInit` field given per call replaces the default value.
+ *
+ * @param defaults - Options applied to every request made through the client.
+ * @returns A function with the same signature as `fetchT`.
+ * @throws {TypeError} If `baseURL` is not a valid absolute URL.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createFetchT } from '@happy-ts/fetch-t';
+ *
+ * const api = createFetchT({
+ *     baseURL: 'https://api.example.com/v1/',
+ *     headers: { Authorization: 'Bearer token' },
+ *     timeout: 10000,
+ *     retry: { retries: 2, when: [502, 503] },
+ * });
+ *
+ * // GET https://api.example.com/v1/users/1
+ * const user = await api<User>('users/1', { responseType: 'json' });
+ *
+ * // Per-call options override the defaults
+ * const task = api('reports/export', {
+ *     abortable: true,
+ *     responseType: 'blob',
+ *     timeout: 60000,
+ * });
+ * ```
+ */
+export function createFetchT(defaults: FetchClientOptions = {}): FetchT {
+    const {
+        baseURL,
+        ...defaultInit
+    } = defaults;
+
+    let base: URL | undefined;
+    if (baseURL != null) {
+        try {
+            base = new URL(baseURL);
+        } catch {
+            throw new TypeError(`Invalid baseURL: ${ baseURL }`);
+        }
+    }
+
+    const client = (url: string | URL, init?: FetchInit): FetchTask<FetchResponseData> | FetchResult<FetchResponseData> => {
+        return fetchT(validateUrl(url, base), mergeInit(defaultInit, init));
+    };
+
+    return client as FetchT;
+}
+
+/**
+ * Merges client defaults with per-call options.
+ */
+function mergeInit(defaults: FetchInit, init?: FetchInit): FetchInit {
+    if (init == null) {
+        return defaults;
+    }
+
+    const merged: FetchInit = {
+        ...defaults,
+        ...init,
+    };
+
+    if (defaults.headers != null) {
+        const headers = new Headers(defaults.headers);
+        if (init.headers != null) {
+            new Headers(init.headers).forEach((value, key) => {
+                headers.set(key, value);
+            });
+        }
+        merged.headers = headers;
+    }
+
+    if (defaults.middleware != null && init.middleware != null) {
+        merged.middleware = [...defaults.middleware, ...init.middleware];
+    }
+
+    if (defaults.query != null && init.query != null) {
+        merged.query = {
+            ...defaults.query,
+            ...init.query,
+        };
+    }
+
+    return merged;
+}
@@ -0,0 +1,124 @@
+import type { FetchMiddleware, FetchResponseType } from './defines.ts';
+
+/**
+ * A caller waiting for the shared response.
+ */
+interface Subscriber {
+    resolve: (response: Response) => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * A network request shared by concurrent callers.
+ */
+interface InflightRequest {
+    controller: AbortController;
+    subscribers: Set<Subscriber>;
+}
+
+/**
+ * In-flight requests shared by every `fetchT` call using `dedupe: true`, keyed by `getDedupeKey`.
+ */
+const inflightRequests = new Map<string, InflightRequest>();
+
+/**
+ * Creates a middleware coalescing concurrent identical `GET` and `HEAD` requests into one network call.
+ *
+ * Requests are identical when they share method, URL, headers and `responseType`.
+ * Each caller receives its own clone of the response. The shared request has its own
+ * abort signal, which is only aborted once every caller has aborted.
+ */
+export function createDedupeMiddleware(responseType?: FetchResponseType): FetchMiddleware {
+    return (request, next) => {
+        if (request.method !== 'GET' && request.method !== 'HEAD') {
+            return next(request);
+        }
+
+        const key = getDedupeKey(request, responseType);
+
+        let inflight = inflightRequests.get(key);
+
+        if (inflight == null) {
+            const current: InflightRequest = {
+                controller: new AbortController(),
+                subscribers: new Set(),
+            };
+            inflight = current;
+            inflightRequests.set(key, current);
+
+            const settle = (): void => {
+                if (inflightRequests.get(key) === current) {
+                    inflightRequests.delete(key);
+                }
+            };
+
+            next(new Request(request, { signal: current.controller.signal })).then(response => {
+                settle();
+
+                for (const subscriber of current.subscribers) {
+                    subscriber.resolve(response.clone());
+                }
+
+                // Every subscriber has its own clone, release the original body
+                response.body?.cancel().catch(() => {
+                    // Silently ignore stream cancel errors
+                });
+            }, (err: unknown) => {
+                settle();
+
+                for (const subscriber of current.subscribers) {
+                    subscriber.reject(err);
+                }
+            });
+        }
+
+        const { controller, subscribers } = inflight;
+        const { signal } = request;
+
+        return new Promise<Response>((resolve, reject) => {
+            const onAbort = (): void => {
+                subscribers.delete(subscriber);
+                reject(signal.reason);
+
+                // Cancel the shared request only when nobody is waiting anymore
+                if (subscribers.size === 0) {
+                    if (inflightRequests.get(key) === inflight) {
+                        inflightRequests.delete(key);
+                    }
+                    controller.abort(signal.reason);
+                }
+            };
+
+            const subscriber: Subscriber = {
+                resolve(response): void {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve(response);
+                },
+                reject(err): void {
+                    signal.removeEventListener('abort', onAbort);
+                    reject(err);
+                },
+            };
+
+            subscribers.add(subscriber);
+
+            if (signal.aborted) {
+                onAbort();
+            } else {
+                signal.addEventListener('abort', onAbort, { once: true });
+            }
+        });
+    };
+}
+
+/**
+ * Builds the deduplication key from method, URL, headers and `responseType`.
+ */
+function getDedupeKey(request: Request, responseType?: FetchResponseType): string {
+    // Headers are iterated in sorted, lower-cased order
+    const headers = [...request.headers]
+        .map(([name, value]) => `${ name }: ${ value }`)
+        .join('\n');
+
+    return `${ request.method } ${ request.url } ${ responseType ?? 'response' }\n${ headers }`;
+}
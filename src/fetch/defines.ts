@@ -1,4 +1,5 @@
-import type { AsyncIOResult, IOResult } from 'happy-rusty';
+import type { AsyncIOResult, IOResult, Result } from 'happy-rusty';
+import type { fetchT } from './fetch.ts';
 
 /**
  * Union type of all possible fetchT response data types.
@@ -21,8 +22,11 @@ export type FetchResponseData =
     | string
     | ArrayBuffer
     | Blob
+    | FormData
     | Uint8Array<ArrayBuffer>
     | ReadableStream<Uint8Array<ArrayBuffer>>
+    | AsyncIterableIterator<FetchSSEMessage>
+    | AsyncIterableIterator<IOResult<unknown>>
     | Response
     | null;
 
@@ -121,7 +125,10 @@ export interface FetchTask<T> {
  * - `'arraybuffer'` - Parse response as ArrayBuffer via `Response.arrayBuffer()`
  * - `'bytes'` - Parse response as Uint8Array<ArrayBuffer> via `Response.bytes()` (with fallback for older environments)
  * - `'blob'` - Parse response as Blob via `Response.blob()`
+ * - `'formData'` - Parse a `multipart/form-data` or `application/x-www-form-urlencoded` response via `Response.formData()`
  * - `'stream'` - Return the raw `ReadableStream` for streaming processing
+ * - `'sse'` - Parse a `text/event-stream` response into an async iterable of `FetchSSEMessage`
+ * - `'ndjson'` - Parse a newline-delimited JSON response into an async iterable of `IOResult` values, one per line
  *
  * If not specified, the raw `Response` object is returned.
  *
@@ -135,13 +142,80 @@ export interface FetchTask<T> {
  * const result = await fetchT('https://api.example.com/data', { responseType });
  * ```
  */
-export type FetchResponseType = 'text' | 'arraybuffer' | 'blob' | 'json' | 'bytes' | 'stream';
+export type FetchResponseType = 'text' | 'arraybuffer' | 'blob' | 'json' | 'bytes' | 'formData' | 'stream' | 'sse' | 'ndjson';
 
 /**
- * Represents the download progress of a fetch operation.
+ * A message of a Server-Sent Events stream, yielded with `responseType: 'sse'`.
  *
- * Passed to the `onProgress` callback when tracking download progress.
- * Note: Progress tracking requires the server to send a `Content-Length` header.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchT } from '@happy-ts/fetch-t';
+ *
+ * const result = await fetchT('https://api.example.com/events', {
+ *     responseType: 'sse',
+ *     sse: { reconnect: true },
+ * });
+ *
+ * for await (const message of result.unwrap()) {
+ *     if (message.event === 'update') {
+ *         console.log(JSON.parse(message.data));
+ *     }
+ * }
+ * ```
+ */
+export interface FetchSSEMessage {
+    /**
+     * The event type, `'message'` when the server sent no `event` field.
+     */
+    event: string;
+
+    /**
+     * The message data, with multiple `data` fields joined by newlines.
+     */
+    data: string;
+
+    /**
+     * The last event ID, sent as `Last-Event-ID` on reconnection.
+     */
+    id: string;
+
+    /**
+     * The reconnection time in milliseconds, if the message included a `retry` field.
+     */
+    retry?: number;
+}
+
+/**
+ * Options for `responseType: 'sse'`.
+ *
+ * @since 1.10.0
+ */
+export interface FetchSSEOptions {
+    /**
+     * Reconnects when the stream ends or fails, sending the last event ID as `Last-Event-ID`.
+     *
+     * Reconnection stops when the server responds with `204 No Content`, and the iteration
+     * throws a `FetchError` on any other unsuccessful status.
+     *
+     * @defaultValue false
+     */
+    reconnect?: boolean;
+
+    /**
+     * Delay in milliseconds before reconnecting, replaced by the server's `retry` field.
+     *
+     * @defaultValue 3000
+     */
+    retry?: number;
+}
+
+/**
+ * Represents the download or upload progress of a fetch operation.
+ *
+ * Passed to the `onProgress` callback when tracking download progress, and to the
+ * `onUploadProgress` callback when tracking upload progress.
+ * Note: Download progress tracking requires the server to send a `Content-Length` header.
  *
  * @since 1.0.0
  * @example
@@ -161,16 +235,80 @@ export type FetchResponseType = 'text' | 'arraybuffer' | 'blob' | 'json' | 'byte
  */
 export interface FetchProgress {
     /**
-     * The total number of bytes to be received (from Content-Length header).
+     * The total number of bytes to be received (from Content-Length header), or to be sent.
      */
     totalByteLength: number;
 
     /**
-     * The number of bytes received so far.
+     * The number of bytes received or sent so far.
      */
     completedByteLength: number;
 }
 
+/**
+ * Named backoff strategies for retry delays.
+ *
+ * With `n` the attempt number (1-indexed), all delays are capped by `max`:
+ * - `'exponential'` - `base * factor^(n - 1)`
+ * - `'linear'` - `base * (1 + factor * (n - 1))`
+ * - `'fullJitter'` - random between 0 and the exponential delay
+ * - `'decorrelatedJitter'` - random between `base` and `factor` times the previous delay
+ *
+ * @since 1.10.0
+ */
+export type FetchBackoffStrategy = 'exponential' | 'linear' | 'fullJitter' | 'decorrelatedJitter';
+
+/**
+ * Options for a named backoff strategy, usable as `FetchRetryOptions.delay`.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchT } from '@happy-ts/fetch-t';
+ *
+ * const result = await fetchT('https://api.example.com/data', {
+ *     retry: {
+ *         retries: 5,
+ *         delay: { strategy: 'fullJitter', base: 200, max: 10000 },
+ *     },
+ * });
+ * ```
+ */
+export interface FetchBackoffOptions {
+    /**
+     * The backoff strategy.
+     */
+    strategy: FetchBackoffStrategy;
+
+    /**
+     * The base delay in milliseconds.
+     *
+     * @defaultValue 100
+     */
+    base?: number;
+
+    /**
+     * The growth factor.
+     *
+     * @defaultValue 2 for `exponential` and `fullJitter`, 1 for `linear`, 3 for `decorrelatedJitter`
+     */
+    factor?: number;
+
+    /**
+     * The maximum delay in milliseconds.
+     *
+     * @defaultValue 30000
+     */
+    max?: number;
+
+    /**
+     * Random source returning a number in `[0, 1)`, injectable for deterministic tests.
+     *
+     * @defaultValue Math.random
+     */
+    random?: () => number;
+}
+
 /**
  * Options for configuring retry behavior.
  *
@@ -190,12 +328,43 @@ export interface FetchRetryOptions {
     /**
      * Delay between retry attempts in milliseconds.
      *
-     * Can be a static number or a function for custom strategies like exponential backoff.
-     * The function receives the current attempt number (1-indexed).
+     * Can be a static number, a named backoff strategy (see `FetchBackoffOptions`), or a
+     * function for custom strategies. The function receives the current attempt number
+     * (1-indexed) and the error that triggered the retry, e.g. to read `FetchError.headers`.
+     *
+     * When the server sends `Retry-After` (see `respectRetryAfter`), the larger of the two
+     * delays is used.
      *
      * @defaultValue 0 (immediate retry)
      */
-    delay?: number | ((attempt: number) => number);
+    delay?: number | FetchBackoffOptions | ((attempt: number, error: Error) => number);
+
+    /**
+     * Whether to wait at least as long as the `Retry-After` header of a `FetchError` asks,
+     * in both the delay-seconds and HTTP-date forms.
+     *
+     * @defaultValue true
+     */
+    respectRetryAfter?: boolean;
+
+    /**
+     * Whether to also wait for the `RateLimit-Reset` or `X-RateLimit-Reset` header of a `FetchError`
+     * when `Retry-After` is absent.
+     *
+     * Values are read as delta seconds, or as a Unix timestamp in seconds when they are
+     * large enough to be one.
+     *
+     * @defaultValue false
+     */
+    respectRateLimitReset?: boolean;
+
+    /**
+     * Upper bound in milliseconds for delays requested by server headers,
+     * so a hostile or misconfigured server cannot stall retries for hours.
+     *
+     * @defaultValue 60000
+     */
+    maxRetryAfter?: number;
 
     /**
      * Conditions under which to retry the request.
@@ -213,9 +382,387 @@ export interface FetchRetryOptions {
     onRetry?: (error: Error, attempt: number) => void;
 }
 
+/**
+ * A validation issue reported by a schema.
+ *
+ * Compatible with the `Issue` type of the Standard Schema specification.
+ *
+ * @since 1.10.0
+ */
+export interface FetchSchemaIssue {
+    /**
+     * The error message of the issue.
+     */
+    readonly message: string;
+
+    /**
+     * The path of the issue, if any.
+     */
+    readonly path?: readonly (PropertyKey | { readonly key: PropertyKey; })[] | undefined;
+}
+
+/**
+ * The result of a Standard Schema validation.
+ *
+ * @typeParam T - The output type of the schema.
+ * @since 1.10.0
+ */
+export type FetchStandardSchemaResult<T> =
+    | { readonly value: T; readonly issues?: undefined; }
+    | { readonly issues: readonly FetchSchemaIssue[]; };
+
+/**
+ * A validator implementing the [Standard Schema](https://standardschema.dev) specification (v1).
+ *
+ * Zod, Valibot, ArkType and other libraries implement this interface, so their schemas
+ * can be passed directly as `schema` without adapters.
+ *
+ * @typeParam T - The output type of the schema.
+ * @since 1.10.0
+ */
+export interface FetchStandardSchema<T> {
+    readonly '~standard': {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => FetchStandardSchemaResult<T> | Promise<FetchStandardSchemaResult<T>>;
+    };
+}
+
+/**
+ * Validates parsed JSON response data.
+ *
+ * Either a Standard Schema–compatible validator, or a plain function returning a `Result`.
+ *
+ * @typeParam T - The type of the validated data.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { Err, Ok } from 'happy-rusty';
+ * import { z } from 'zod';
+ * import { fetchT, type FetchSchema } from '@happy-ts/fetch-t';
+ *
+ * // Standard Schema validator
+ * const User = z.object({ id: z.number(), name: z.string() });
+ * const result = await fetchT('https://api.example.com/user/1', {
+ *     responseType: 'json',
+ *     schema: User, // result is Result<{ id: number; name: string; }, Error>
+ * });
+ *
+ * // Plain function
+ * const isId: FetchSchema<number> = (data) => typeof data === 'number'
+ *     ? Ok(data)
+ *     : Err(new Error('Expected a number'));
+ * ```
+ */
+export type FetchSchema<T> = FetchStandardSchema<T> | ((data: unknown) => Result<T, Error>);
+
+/**
+ * A response stored by the HTTP cache.
+ *
+ * Contains only serializable data, so entries can be persisted by custom stores.
+ *
+ * @since 1.10.0
+ */
+export interface FetchCacheEntry {
+    /**
+     * The HTTP status code of the stored response.
+     */
+    status: number;
+
+    /**
+     * The HTTP status text of the stored response.
+     */
+    statusText: string;
+
+    /**
+     * The headers of the stored response as name/value pairs.
+     */
+    headers: [string, string][];
+
+    /**
+     * The body of the stored response.
+     */
+    body: ArrayBuffer;
+
+    /**
+     * Request header values selected by the response `Vary` header, and the credential headers
+     * (`Authorization`, `Cookie` and `Proxy-Authorization`), keyed by lower-cased name.
+     */
+    vary: Record<string, string | null>;
+
+    /**
+     * The time the entry was stored or last revalidated, in milliseconds since the epoch.
+     */
+    storedAt: number;
+}
+
+/**
+ * Pluggable storage used by the HTTP cache.
+ *
+ * Methods may be synchronous or asynchronous. Errors thrown by a store are ignored
+ * and treated as cache misses. Keys are request URLs.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchT, type FetchCacheEntry, type FetchCacheStore } from '@happy-ts/fetch-t';
+ *
+ * // Persist entries with any key-value storage
+ * const store: FetchCacheStore = {
+ *     get: (key) => db.get<FetchCacheEntry>(key),
+ *     set: (key, entry) => db.put(key, entry),
+ *     delete: (key) => db.delete(key),
+ * };
+ *
+ * const result = await fetchT('https://api.example.com/countries', {
+ *     httpCache: store,
+ *     responseType: 'json',
+ * });
+ * ```
+ */
+export interface FetchCacheStore {
+    /**
+     * Returns the entry stored for `key`, if any.
+     */
+    get(key: string): FetchCacheEntry | undefined | Promise<FetchCacheEntry | undefined>;
+
+    /**
+     * Stores `entry` for `key`, replacing any existing entry.
+     */
+    set(key: string, entry: FetchCacheEntry): void | Promise<void>;
+
+    /**
+     * Removes the entry stored for `key`.
+     */
+    delete(key: string): void | Promise<void>;
+}
+
+/**
+ * State of a circuit in a `FetchCircuitBreaker`.
+ *
+ * - `'closed'` - Requests pass through
+ * - `'open'` - Requests fail fast with `CircuitOpenError`
+ * - `'half-open'` - A single trial request is let through to probe the service
+ *
+ * @since 1.10.0
+ */
+export type FetchCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A circuit breaker created by `createCircuitBreaker()`, used with the `circuitBreaker` option.
+ *
+ * @since 1.10.0
+ */
+export interface FetchCircuitBreaker {
+    /**
+     * Returns the current state of the circuit for `key`.
+     */
+    getState(key: string): FetchCircuitState;
+
+    /**
+     * Closes the circuit for `key`, or every circuit when `key` is omitted.
+     */
+    reset(key?: string): void;
+
+    /**
+     * Sends a request through the breaker, recording its outcome.
+     * Rejects with `CircuitOpenError` without calling `next` while the circuit is open.
+     */
+    execute(request: Request, next: FetchMiddlewareNext): Promise<Response>;
+}
+
+/**
+ * Authenticates requests, created by `createBearerAuth()` and used with the `auth` option.
+ *
+ * @since 1.10.0
+ */
+export interface FetchAuth {
+    /**
+     * Sends a request with credentials attached, refreshing them and replaying the request
+     * when the server rejects them.
+     */
+    execute(request: Request, next: FetchMiddlewareNext): Promise<Response>;
+}
+
+/**
+ * A queue limiting concurrent requests, created by `createRequestQueue()` and used with the `queue` option.
+ *
+ * @since 1.10.0
+ */
+export interface FetchRequestQueue {
+    /**
+     * Number of requests currently holding a slot.
+     */
+    readonly active: number;
+
+    /**
+     * Number of requests waiting for a slot.
+     */
+    readonly pending: number;
+
+    /**
+     * Waits for a slot for a request to `url` and resolves with the function releasing it.
+     * Rejects with the abort reason if `signal` aborts before a slot is available.
+     */
+    acquire(url: string | URL, signal?: AbortSignal): Promise<() => void>;
+}
+
+/**
+ * Options for the `hedge` option of `fetchT`.
+ *
+ * @since 1.10.0
+ */
+export interface FetchHedgeOptions {
+    /**
+     * Milliseconds to wait for response headers before sending each duplicate request.
+     */
+    delay: number;
+
+    /**
+     * Maximum number of duplicate requests sent in addition to the original one.
+     *
+     * @defaultValue 1
+     */
+    maxHedges?: number;
+
+    /**
+     * Allows hedging requests whose method is not idempotent, e.g. `POST`.
+     * Only enable this when the server tolerates receiving the same request several times.
+     *
+     * @defaultValue false
+     */
+    force?: boolean;
+}
+
+/**
+ * Why a `resumable` download could not be resumed.
+ *
+ * - `'no-validator'` - The response has no strong `ETag` or `Last-Modified`, or is content-encoded
+ * - `'range-ignored'` - The server answered the range request with the full body
+ * - `'validator-changed'` - The resource changed since the download started
+ * - `'invalid-content-range'` - The `206` response does not start at the expected offset
+ *
+ * @since 1.10.0
+ */
+export type FetchResumeFallbackReason = 'no-validator' | 'range-ignored' | 'validator-changed' | 'invalid-content-range';
+
+/**
+ * A single query parameter value.
+ *
+ * `undefined` and `null` values are skipped, `Date` values are serialized with
+ * `toISOString()`, and other values are converted with `String()`.
+ *
+ * @since 1.10.0
+ */
+export type FetchQueryValue = string | number | boolean | bigint | Date | null | undefined;
+
+/**
+ * Query parameters merged into the request URL.
+ *
+ * Each value is either a single value or an array of values.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchT, type FetchQuery } from '@happy-ts/fetch-t';
+ *
+ * const query: FetchQuery = {
+ *     page: 2,
+ *     tags: ['a', 'b'],
+ *     since: new Date('2026-01-01'),
+ *     draft: false,
+ *     cursor: undefined, // skipped
+ * };
+ *
+ * // https://api.example.com/posts?page=2&tags=a&tags=b&since=2026-01-01T00%3A00%3A00.000Z&draft=false
+ * const result = await fetchT('https://api.example.com/posts', { query });
+ * ```
+ */
+export type FetchQuery = Record<string, FetchQueryValue | readonly FetchQueryValue[]>;
+
+/**
+ * Specifies how array values in `query` are serialized.
+ *
+ * - `'repeat'` - `ids=1&ids=2`
+ * - `'brackets'` - `ids[]=1&ids[]=2`
+ * - `'comma'` - `ids=1,2`
+ * - `'index'` - `ids[0]=1&ids[1]=2`
+ *
+ * @since 1.10.0
+ */
+export type FetchQueryArrayFormat = 'repeat' | 'brackets' | 'comma' | 'index';
+
+/**
+ * Sends a request to the next middleware in the pipeline, or to the network
+ * when called from the last middleware.
+ *
+ * May be called more than once, for example to replay a request.
+ *
+ * @param request - The request to send.
+ * @returns A promise that resolves to the response.
+ * @since 1.10.0
+ */
+export type FetchMiddlewareNext = (request: Request) => Promise<Response>;
+
+/**
+ * A middleware that wraps every fetch attempt.
+ *
+ * Middleware run in onion order: the first middleware in the array is the outermost
+ * one, and sees the request first and the response last. Each middleware can:
+ * - Rewrite the request before passing it to `next()`
+ * - Short-circuit by returning a synthetic `Response` without calling `next()`
+ * - Inspect or replace the response returned by `next()`
+ *
+ * Middleware run once per attempt, so they also see every retry. The returned
+ * response is then checked for `ok` and parsed according to `responseType`.
+ * Errors thrown inside a middleware are returned as `Err` instead of rejecting.
+ *
+ * @param request - The outgoing request.
+ * @param next - Sends the request to the rest of the pipeline.
+ * @returns The response, or a promise that resolves to it.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchT, type FetchMiddleware } from '@happy-ts/fetch-t';
+ *
+ * const logger: FetchMiddleware = async (request, next) => {
+ *     const start = Date.now();
+ *     const response = await next(request);
+ *     console.log(request.method, request.url, response.status, `${ Date.now() - start }ms`);
+ *     return response;
+ * };
+ *
+ * const auth: FetchMiddleware = (request, next) => {
+ *     const headers = new Headers(request.headers);
+ *     headers.set('Authorization', 'Bearer token');
+ *     return next(new Request(request, { headers }));
+ * };
+ *
+ * const result = await fetchT('https://api.example.com/data', {
+ *     middleware: [logger, auth],
+ *     responseType: 'json',
+ * });
+ * ```
+ */
+export type FetchMiddleware = (request: Request, next: FetchMiddlewareNext) => Response | Promise<Response>;
+
+/**
+ * Signs the final request right before it is sent, e.g. `createSigV4Signer()`.
+ *
+ * Runs after every middleware and internal step, once per request sent, including
+ * retries, hedged duplicates, resume and reconnect requests, so the signature always
+ * covers the exact request that goes out.
+ *
+ * @param request - The request about to be sent.
+ * @returns The signed request, or a promise that resolves to it.
+ * @since 1.10.0
+ */
+export type FetchSigner = (request: Request) => Request | Promise<Request>;
+
 /**
  * Extended fetch options that add additional capabilities to the standard `RequestInit`.
  *
+ * @typeParam B - The type of the `json` request payload.
  * @since 1.0.0
  * @example
  * ```typescript
@@ -244,7 +791,7 @@ export interface FetchRetryOptions {
  * const task = fetchT('https://api.example.com/upload', options);
  * ```
  */
-export interface FetchInit extends RequestInit {
+export interface FetchInit<B = unknown> extends RequestInit {
     /**
      * When `true`, returns a `FetchTask` instead of `FetchResult`.
      *
@@ -262,7 +809,10 @@ export interface FetchInit extends RequestInit {
      * - `'arraybuffer'` - Returns `ArrayBuffer`
      * - `'bytes'` - Returns `Uint8Array<ArrayBuffer>` (with fallback for older environments)
      * - `'blob'` - Returns `Blob`
+     * - `'formData'` - Returns `FormData`, or `null` when the response has no body
      * - `'stream'` - Returns `ReadableStream<Uint8Array<ArrayBuffer>>`
+     * - `'sse'` - Returns `AsyncIterableIterator<FetchSSEMessage>`
+     * - `'ndjson'` - Returns `AsyncIterableIterator<IOResult<T>>`, one item per line
      * - `undefined` - Returns raw `Response` object
      *
      * When using a dynamic string value (not a literal type), the return type
@@ -333,8 +883,303 @@ export interface FetchInit extends RequestInit {
      * @param chunk - The raw data chunk received from the response stream.
      */
     onChunk?: (chunk: Uint8Array<ArrayBuffer>) => void;
+
+    /**
+     * Callback invoked during upload to report progress.
+     *
+     * Receives an `IOResult<FetchProgress>`:
+     * - `Ok(FetchProgress)` - Progress update with byte counts
+     * - `Err(Error)` - If the body is a `ReadableStream`, whose size cannot be known (called once per attempt)
+     *
+     * The request body is wrapped in a counting stream and sent with `duplex: 'half'`.
+     * `string`, `Blob`, `ArrayBuffer`, typed array, `FormData` and `URLSearchParams` bodies
+     * are re-wrapped on every attempt, so they work together with `retry`.
+     * A `ReadableStream` body can only be sent once.
+     *
+     * **Note**: Streaming request bodies require runtime support. Browsers that do not
+     * support them will fail the request.
+     *
+     * @param progressResult - The progress result, either success with progress data or error.
+     */
+    onUploadProgress?: (progressResult: IOResult<FetchProgress>) => void;
+
+    /**
+     * Middleware pipeline wrapped around every fetch attempt.
+     *
+     * The first middleware is the outermost one. When used through `createFetchT`,
+     * client middleware run before (outside) per-call middleware.
+     *
+     * @see {@link FetchMiddleware}
+     */
+    middleware?: FetchMiddleware[];
+
+    /**
+     * The `fetch` implementation sending every attempt, after all middleware.
+     * Defaults to the global `fetch`.
+     *
+     * Useful for undici with a custom dispatcher, a polyfill, or a test double.
+     *
+     * @example
+     * ```typescript
+     * import { Agent, fetch as undiciFetch } from 'undici';
+     *
+     * const dispatcher = new Agent({ connections: 10 });
+     * const result = await fetchT('https://api.example.com/data', {
+     *     fetch: (input, init) => undiciFetch(input, { ...init, dispatcher }),
+     * });
+     * ```
+     */
+    fetch?: typeof fetch;
+
+    /**
+     * Signs every request right before it is sent, after all middleware.
+     *
+     * @see {@link FetchSigner}
+     */
+    sign?: FetchSigner;
+
+    /**
+     * A value sent as a JSON request body.
+     *
+     * The value is serialized with `JSON.stringify`, and `Content-Type` and `Accept`
+     * are set to `application/json` unless already present in `headers`.
+     * Cannot be used together with `body`.
+     *
+     * @example
+     * ```typescript
+     * interface CreateUser {
+     *     name: string;
+     * }
+     *
+     * // Both the request payload and the response are type-checked
+     * const result = await fetchT<User, CreateUser>('https://api.example.com/users', {
+     *     method: 'POST',
+     *     json: { name: 'John' },
+     *     responseType: 'json',
+     * });
+     * ```
+     */
+    json?: B;
+
+    /**
+     * Query parameters merged into the request URL.
+     *
+     * Search params already present on the URL are preserved, except those with the
+     * same name as a serialized query parameter, which are replaced.
+     *
+     * @example
+     * ```typescript
+     * // GET https://api.example.com/posts?lang=en&page=2&tags[]=a&tags[]=b
+     * const result = await fetchT('https://api.example.com/posts?lang=en&page=1', {
+     *     query: { page: 2, tags: ['a', 'b'] },
+     *     queryArrayFormat: 'brackets',
+     * });
+     * ```
+     */
+    query?: FetchQuery;
+
+    /**
+     * How array values in `query` are serialized.
+     *
+     * @defaultValue 'repeat'
+     */
+    queryArrayFormat?: FetchQueryArrayFormat;
+
+    /**
+     * Custom serializer that converts `query` to a query string (without the leading `?`).
+     *
+     * When provided, `queryArrayFormat` is ignored. The returned string is still merged
+     * with the search params already present on the URL.
+     */
+    querySerializer?: (query: FetchQuery) => string;
+
+    /**
+     * Validates the parsed JSON response. Only allowed with `responseType: 'json'`.
+     *
+     * The parsed data (or `null` for an empty body) is passed to the schema. On failure,
+     * the result is an `Err` containing a `FetchValidationError` with the reported issues.
+     * The overloads infer the response type from the schema.
+     *
+     * @see {@link FetchSchema}
+     */
+    schema?: FetchSchema<unknown>;
+
+    /**
+     * Authenticates every attempt, e.g. with a bearer token refreshed on `401`.
+     * Create one with `createBearerAuth()` and share it between calls through a client.
+     *
+     * Runs after (inside) `middleware`, so middleware see the request without credentials.
+     */
+    auth?: FetchAuth;
+
+    /**
+     * Enables a private HTTP cache honoring `Cache-Control`, `Expires`, `ETag` and `Last-Modified`.
+     *
+     * - `true` - Use a shared in-memory LRU store
+     * - `FetchCacheStore` - Use the given store, e.g. `createMemoryCacheStore()` or a persistent one
+     *
+     * Successful `GET` responses are stored unless marked `no-store`. Fresh entries are served
+     * without a network request, stale entries are revalidated with `If-None-Match`/`If-Modified-Since`,
+     * and a `304` response is turned into the cached response for every `responseType`.
+     * The `cache` request mode values `no-store`, `reload` and `no-cache` are honored.
+     *
+     * **Note**: Storable responses are fully buffered before they are returned.
+     *
+     * Not to be confused with the standard `cache` option, which controls the runtime's own cache.
+     *
+     * @defaultValue false
+     */
+    httpCache?: boolean | FetchCacheStore;
+
+    /**
+     * Coalesces concurrent identical `GET` and `HEAD` requests into one network call.
+     *
+     * Requests are identical when they share method, URL, headers and `responseType`.
+     * Every caller receives an independent result (the response body is cloned per caller).
+     * Aborting one caller only cancels the shared request once every caller has aborted.
+     *
+     * @defaultValue false
+     */
+    dedupe?: boolean;
+
+    /**
+     * Circuit breaker checked before every attempt, including retries.
+     *
+     * While the circuit for the request is open, the attempt fails immediately with
+     * `CircuitOpenError`, which is never retried. Create one with `createCircuitBreaker()`
+     * and share it between calls, e.g. through a client created with `createFetchT()`.
+     */
+    circuitBreaker?: FetchCircuitBreaker;
+
+    /**
+     * Queue limiting the number of concurrent requests, created with `createRequestQueue()`.
+     *
+     * Every attempt, including retries, waits for a slot, which is held until the body has been read.
+     * For the streaming types (`'stream'`, `'sse'` and `'ndjson'`), that is until the returned stream
+     * ends, errors or is cancelled, so cancel streams you stop reading. Without `responseType`, the slot
+     * is released as soon as the response headers arrive. Aborting the request while it waits removes it
+     * from the queue.
+     */
+    queue?: FetchRequestQueue;
+
+    /**
+     * Whether `timeout` also covers the time spent waiting in `queue`.
+     * By default the timeout starts once the request leaves the queue.
+     *
+     * @defaultValue false
+     */
+    timeoutIncludesQueue?: boolean;
+
+    /**
+     * Sends duplicate requests when the response headers are slow to arrive, to cut tail latency.
+     *
+     * If no response has arrived `hedge.delay` milliseconds after a request was sent, the same request
+     * is sent again, up to `hedge.maxHedges` times. The first response wins and the other requests
+     * are aborted. The attempt only fails once every request has failed.
+     *
+     * Hedging happens within a single attempt: `timeout` covers all duplicates together, `retry`
+     * retries the hedged attempt as a whole, and aborting the request aborts every duplicate.
+     * Only idempotent methods (`GET`, `HEAD`, `OPTIONS`, `TRACE`, `PUT` and `DELETE`) can be
+     * hedged unless `hedge.force` is `true`.
+     *
+     * @example
+     * ```typescript
+     * // Send a second request if the first one has no response after 200ms
+     * const result = await fetchT('https://api.example.com/search?q=fetch', {
+     *     hedge: { delay: 200 },
+     *     responseType: 'json',
+     * });
+     * ```
+     */
+    hedge?: FetchHedgeOptions;
+
+    /**
+     * Event stream options, only valid with `responseType: 'sse'`.
+     *
+     * `FetchTask.abort()` ends the iteration and cancels pending reconnects.
+     */
+    sse?: FetchSSEOptions;
+
+    /**
+     * Resumes interrupted downloads with `Range` and `If-Range` requests instead of starting over.
+     *
+     * When the body of a `200` response fails mid-way, the rest is requested from the number of bytes
+     * already received, validated by the original strong `ETag` or `Last-Modified`. The pieces are
+     * stitched together into the final `responseType`, including `'stream'`. Resume attempts follow
+     * the `retry` options (`when`, `delay` and `onRetry`), so `retry` must be set as well, and count
+     * against the same `retries` as full restarts.
+     *
+     * If the response cannot be resumed, `onResumeFallback` is called and the download restarts from
+     * the beginning through `retry` (for `responseType: 'stream'` the stream errors instead, since
+     * bytes already delivered cannot be taken back). A full `200` response to the range request is
+     * used as the restart instead of being requested again.
+     *
+     * Only `GET` requests can be resumable.
+     *
+     * @defaultValue false
+     */
+    resumable?: boolean;
+
+    /**
+     * Called when a `resumable` download cannot be resumed and falls back to a full restart.
+     */
+    onResumeFallback?: (reason: FetchResumeFallbackReason) => void;
+}
+
+/**
+ * Default options shared by every request made through a client created with `createFetchT`.
+ *
+ * Accepts every `FetchInit` field except `abortable`, `responseType`, `schema` and `sse`, which
+ * depend on the return type of each call and therefore must be given per call.
+ *
+ * Client `middleware` are prepended to per-call `middleware`, and client `query` is
+ * shallow-merged with per-call `query`, instead of being replaced.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createFetchT, type FetchClientOptions } from '@happy-ts/fetch-t';
+ *
+ * const options: FetchClientOptions = {
+ *     baseURL: 'https://api.example.com/v1/',
+ *     headers: { Authorization: 'Bearer token' },
+ *     timeout: 10000,
+ *     retry: 2,
+ * };
+ *
+ * const api = createFetchT(options);
+ * ```
+ */
+export interface FetchClientOptions extends Omit<FetchInit, 'abortable' | 'responseType' | 'schema' | 'sse'> {
+    /**
+     * Base URL used to resolve relative request URLs.
+     *
+     * Resolution follows the `URL` constructor rules, so `'users'` against
+     * `'https://api.example.com/v1/'` becomes `'https://api.example.com/v1/users'`,
+     * while `'/users'` becomes `'https://api.example.com/users'`.
+     *
+     * When omitted, relative URLs are resolved against `location.href` in browsers
+     * and rejected elsewhere, exactly like `fetchT`.
+     */
+    baseURL?: string | URL;
 }
 
+/**
+ * The signature of `fetchT`, including all of its overloads.
+ *
+ * Returned by `createFetchT`, so a client can be used anywhere `fetchT` is expected.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createFetchT, type FetchT } from '@happy-ts/fetch-t';
+ *
+ * const api: FetchT = createFetchT({ baseURL: 'https://api.example.com/' });
+ * const result = await api('users/1', { responseType: 'json' });
+ * ```
+ */
+export type FetchT = typeof fetchT;
+
 /**
  * Custom error class for HTTP error responses (non-2xx status codes).
  *
@@ -354,6 +1199,7 @@ export interface FetchInit extends RequestInit {
  *     if (err instanceof FetchError) {
  *         console.log('HTTP Status:', err.status);  // e.g., 404
  *         console.log('Status Text:', err.message); // e.g., "Not Found"
+ *         console.log('Retry-After:', err.headers.get('Retry-After'));
  *
  *         // Handle specific status codes
  *         switch (err.status) {
@@ -382,14 +1228,220 @@ export class FetchError extends Error {
      */
     status: number;
 
+    /**
+     * The headers of the response, e.g. to read `Retry-After`.
+     *
+     * @since 1.10.0
+     */
+    headers: Headers;
+
     /**
      * Creates a new FetchError instance.
      *
      * @param message - The status text from the HTTP response (e.g., "Not Found").
      * @param status - The HTTP status code (e.g., 404).
+     * @param headers - The headers of the response. Defaults to empty headers.
+     * @param options - Standard error options, e.g. the `cause` of the error.
      */
-    constructor(message: string, status: number) {
-        super(message);
+    constructor(message: string, status: number, headers: Headers = new Headers(), options?: ErrorOptions) {
+        super(message, options);
         this.status = status;
+        this.headers = headers;
+    }
+}
+
+/**
+ * Error returned when an OAuth2 token endpoint responds with an error (RFC 6749, section 5.2).
+ *
+ * Extends `FetchError`, so `status` and `headers` describe the token endpoint response.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { OAuth2Error } from '@happy-ts/fetch-t';
+ *
+ * result.inspectErr((err) => {
+ *     if (err instanceof OAuth2Error && err.error === 'invalid_client') {
+ *         console.error('Check the client credentials:', err.errorDescription);
+ *     }
+ * });
+ * ```
+ */
+export class OAuth2Error extends FetchError {
+    /**
+     * The error name, always `'OAuth2Error'`.
+     */
+    override name = 'OAuth2Error';
+
+    /**
+     * The OAuth2 error code, e.g. `'invalid_client'` or `'invalid_grant'`.
+     */
+    error: string;
+
+    /**
+     * Human-readable description from the `error_description` field.
+     */
+    errorDescription?: string;
+
+    /**
+     * Page describing the error from the `error_uri` field.
+     */
+    errorUri?: string;
+
+    /**
+     * Creates a new OAuth2Error instance.
+     *
+     * @param error - The OAuth2 error code.
+     * @param status - The HTTP status code of the token endpoint response.
+     * @param headers - The headers of the token endpoint response.
+     * @param errorDescription - The `error_description` field.
+     * @param errorUri - The `error_uri` field.
+     */
+    constructor(error: string, status: number, headers?: Headers, errorDescription?: string, errorUri?: string) {
+        super(errorDescription ? `${ error }: ${ errorDescription }` : error, status, headers);
+        this.error = error;
+        this.errorDescription = errorDescription;
+        this.errorUri = errorUri;
+    }
+}
+
+/**
+ * Error returned when a request is rejected by an open circuit of the `circuitBreaker` option.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { CircuitOpenError } from '@happy-ts/fetch-t';
+ *
+ * result.inspectErr((err) => {
+ *     if (err instanceof CircuitOpenError) {
+ *         console.log(`${ err.key } is unavailable, retry in ${ err.retryAfter }ms`);
+ *     }
+ * });
+ * ```
+ */
+export class CircuitOpenError extends Error {
+    /**
+     * The error name, always `'CircuitOpenError'`.
+     */
+    override name = 'CircuitOpenError';
+
+    /**
+     * The key of the open circuit, by default the request origin.
+     */
+    key: string;
+
+    /**
+     * Milliseconds until the circuit lets a trial request through,
+     * `0` if a trial request is already in flight.
+     */
+    retryAfter: number;
+
+    /**
+     * Creates a new CircuitOpenError instance.
+     *
+     * @param key - The key of the open circuit.
+     * @param retryAfter - Milliseconds until the circuit lets a trial request through.
+     */
+    constructor(key: string, retryAfter: number) {
+        super(`Circuit for ${ key } is open`);
+        this.key = key;
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * Error yielded for a malformed line of a `responseType: 'ndjson'` response.
+ *
+ * The original `SyntaxError` is available as `cause`.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchT } from '@happy-ts/fetch-t';
+ *
+ * const result = await fetchT<LogEntry>('https://api.example.com/logs', {
+ *     responseType: 'ndjson',
+ * });
+ *
+ * for await (const item of result.unwrap()) {
+ *     item
+ *         .inspect((entry) => console.log(entry.message))
+ *         .inspectErr((err) => console.warn(err.message));
+ * }
+ * ```
+ */
+export class FetchNDJSONError extends Error {
+    /**
+     * The error name, always `'FetchNDJSONError'`.
+     */
+    override name = 'FetchNDJSONError';
+
+    /**
+     * The 1-based number of the malformed line.
+     */
+    line: number;
+
+    /**
+     * The content of the malformed line.
+     */
+    text: string;
+
+    /**
+     * Creates a new FetchNDJSONError instance.
+     *
+     * @param line - The 1-based number of the malformed line.
+     * @param text - The content of the malformed line.
+     * @param options - Standard error options, e.g. the original error as `cause`.
+     */
+    constructor(line: number, text: string, options?: ErrorOptions) {
+        super(`Invalid JSON at line ${ line }`, options);
+        this.line = line;
+        this.text = text;
+    }
+}
+
+/**
+ * Error returned when the parsed JSON response does not match the `schema` option.
+ *
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchT, FetchValidationError } from '@happy-ts/fetch-t';
+ *
+ * const result = await fetchT('https://api.example.com/user/1', {
+ *     responseType: 'json',
+ *     schema: User,
+ * });
+ *
+ * result.inspectErr((err) => {
+ *     if (err instanceof FetchValidationError) {
+ *         for (const issue of err.issues) {
+ *             console.log(issue.path, issue.message);
+ *         }
+ *     }
+ * });
+ * ```
+ */
+export class FetchValidationError extends Error {
+    /**
+     * The error name, always `'FetchValidationError'`.
+     */
+    override name = 'FetchValidationError';
+
+    /**
+     * The issues reported by the schema.
+     */
+    issues: readonly FetchSchemaIssue[];
+
+    /**
+     * Creates a new FetchValidationError instance.
+     *
+     * @param issues - The issues reported by the schema.
+     * @param options - Standard error options, e.g. the original error as `cause`.
+     */
+    constructor(issues: readonly FetchSchemaIssue[], options?: ErrorOptions) {
+        super(`Response validation failed: ${ issues.map(issue => issue.message).join('; ') }`, options);
+        this.issues = issues;
     }
 }
@@ -1,6 +1,16 @@
-import { Err, Ok, type AsyncIOResult } from 'happy-rusty';
+import { Err, Ok, type AsyncIOResult, type IOResult } from 'happy-rusty';
 import { ABORT_ERROR } from './constants.ts';
-import { FetchError, type FetchInit, type FetchResponseData, type FetchResponseType, type FetchResult, type FetchRetryOptions, type FetchTask } from './defines.ts';
+import { CircuitOpenError, FetchError, FetchValidationError, type FetchBackoffOptions, type FetchInit, type FetchMiddleware, type FetchMiddlewareNext, type FetchResponseData, type FetchResponseType, type FetchResult, type FetchRetryOptions, type FetchSchema, type FetchSSEMessage, type FetchTask } from './defines.ts';
+import { createBackoff } from './backoff.ts';
+import { createCacheMiddleware, getDefaultCacheStore } from './cache.ts';
+import { createDedupeMiddleware } from './dedupe.ts';
+import { createHedgeMiddleware, IDEMPOTENT_METHODS } from './hedge.ts';
+import { readNDJSON } from './ndjson.ts';
+import { applyQuery } from './query.ts';
+import { createResumableResponse, ResumeRestartError } from './resumable.ts';
+import { readSSE } from './sse.ts';
+import { createUploadInit } from './upload.ts';
+import { validateUrl } from './utils.ts';
 
 // #region Overload Declarations
 
@@ -40,19 +50,47 @@ export function fetchT(url: string | URL, init: FetchInit & {
     responseType: 'blob';
 }): FetchTask<Blob>;
 
+/**
+ * Fetches a resource from the network, parses it as JSON and validates it with a schema, returning an abortable `FetchTask`.
+ *
+ * @typeParam T - The type of the validated data, inferred from `schema`.
+ * @typeParam B - The type of the `json` request payload.
+ * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
+ * @param init - Additional options for the fetch operation, must include `abortable: true`, `responseType: 'json'` and `schema`.
+ * @returns A `FetchTask` representing the abortable operation with a response validated as type `T`.
+ */
+export function fetchT<T, B = unknown>(url: string | URL, init: FetchInit<B> & {
+    abortable: true;
+    responseType: 'json';
+    schema: FetchSchema<T>;
+}): FetchTask<T>;
+
 /**
  * Fetches a resource from the network and parses it as JSON, returning an abortable `FetchTask`.
  *
  * @typeParam T - The expected type of the parsed JSON data.
+ * @typeParam B - The type of the `json` request payload.
  * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
  * @param init - Additional options for the fetch operation, must include `abortable: true` and `responseType: 'json'`.
  * @returns A `FetchTask` representing the abortable operation with a response parsed as type `T`.
  */
-export function fetchT<T>(url: string | URL, init: FetchInit & {
+export function fetchT<T, B = unknown>(url: string | URL, init: FetchInit<B> & {
     abortable: true;
     responseType: 'json';
 }): FetchTask<T | null>;
 
+/**
+ * Fetches a resource from the network as FormData and returns an abortable `FetchTask`.
+ *
+ * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
+ * @param init - Additional options for the fetch operation, must include `abortable: true` and `responseType: 'formData'`.
+ * @returns A `FetchTask` representing the abortable operation with a `FormData` response.
+ */
+export function fetchT(url: string | URL, init: FetchInit & {
+    abortable: true;
+    responseType: 'formData';
+}): FetchTask<FormData | null>;
+
 /**
  * Fetches a resource from the network as a ReadableStream and returns an abortable `FetchTask`.
  *
@@ -65,6 +103,31 @@ export function fetchT(url: string | URL, init: FetchInit & {
     responseType: 'stream';
 }): FetchTask<ReadableStream<Uint8Array<ArrayBuffer>> | null>;
 
+/**
+ * Fetches a Server-Sent Events stream and returns an abortable `FetchTask`.
+ *
+ * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
+ * @param init - Additional options for the fetch operation, must include `abortable: true` and `responseType: 'sse'`.
+ * @returns A `FetchTask` representing the abortable operation with an async iterable of `FetchSSEMessage`.
+ */
+export function fetchT(url: string | URL, init: FetchInit & {
+    abortable: true;
+    responseType: 'sse';
+}): FetchTask<AsyncIterableIterator<FetchSSEMessage>>;
+
+/**
+ * Fetches a newline-delimited JSON stream and returns an abortable `FetchTask`.
+ *
+ * @typeParam T - The expected type of each line.
+ * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
+ * @param init - Additional options for the fetch operation, must include `abortable: true` and `responseType: 'ndjson'`.
+ * @returns A `FetchTask` representing the abortable operation with an async iterable of parsed lines.
+ */
+export function fetchT<T>(url: string | URL, init: FetchInit & {
+    abortable: true;
+    responseType: 'ndjson';
+}): FetchTask<AsyncIterableIterator<IOResult<T>>>;
+
 /**
  * Fetches a resource from the network as a Uint8Array<ArrayBuffer> and returns an abortable `FetchTask`.
  *
@@ -127,19 +190,47 @@ export function fetchT(url: string | URL, init: FetchInit & {
     responseType: 'blob';
 }): FetchResult<Blob>;
 
+/**
+ * Fetches a resource from the network, parses it as JSON and validates it with a schema.
+ *
+ * @typeParam T - The type of the validated data, inferred from `schema`.
+ * @typeParam B - The type of the `json` request payload.
+ * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
+ * @param init - Additional options for the fetch operation, must include `responseType: 'json'` and `schema`, and `abortable` must be `false` or omitted.
+ * @returns A `FetchResult` representing the operation with a response validated as type `T`.
+ */
+export function fetchT<T, B = unknown>(url: string | URL, init: FetchInit<B> & {
+    abortable?: false;
+    responseType: 'json';
+    schema: FetchSchema<T>;
+}): FetchResult<T>;
+
 /**
  * Fetches a resource from the network and parses it as JSON.
  *
  * @typeParam T - The expected type of the parsed JSON data.
+ * @typeParam B - The type of the `json` request payload.
  * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
  * @param init - Additional options for the fetch operation, must include `responseType: 'json'` and `abortable` must be `false` or omitted.
  * @returns A `FetchResult` representing the operation with a response parsed as type `T`.
  */
-export function fetchT<T>(url: string | URL, init: FetchInit & {
+export function fetchT<T, B = unknown>(url: string | URL, init: FetchInit<B> & {
     abortable?: false;
     responseType: 'json';
 }): FetchResult<T | null>;
 
+/**
+ * Fetches a resource from the network as FormData.
+ *
+ * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
+ * @param init - Additional options for the fetch operation, must include `responseType: 'formData'` and `abortable` must be `false` or omitted.
+ * @returns A `FetchResult` representing the operation with a `FormData` response.
+ */
+export function fetchT(url: string | URL, init: FetchInit & {
+    abortable?: false;
+    responseType: 'formData';
+}): FetchResult<FormData | null>;
+
 /**
  * Fetches a resource from the network as a ReadableStream.
  *
@@ -152,6 +243,31 @@ export function fetchT(url: string | URL, init: FetchInit & {
     responseType: 'stream';
 }): FetchResult<ReadableStream<Uint8Array<ArrayBuffer>> | null>;
 
+/**
+ * Fetches a Server-Sent Events stream.
+ *
+ * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
+ * @param init - Additional options for the fetch operation, must include `responseType: 'sse'` and `abortable` must be `false` or omitted.
+ * @returns A `FetchResult` representing the operation with an async iterable of `FetchSSEMessage`.
+ */
+export function fetchT(url: string | URL, init: FetchInit & {
+    abortable?: false;
+    responseType: 'sse';
+}): FetchResult<AsyncIterableIterator<FetchSSEMessage>>;
+
+/**
+ * Fetches a newline-delimited JSON stream.
+ *
+ * @typeParam T - The expected type of each line.
+ * @param url - The resource to fetch. Can be a URL object or a string representing a URL.
+ * @param init - Additional options for the fetch operation, must include `responseType: 'ndjson'` and `abortable` must be `false` or omitted.
+ * @returns A `FetchResult` representing the operation with an async iterable of parsed lines.
+ */
+export function fetchT<T>(url: string | URL, init: FetchInit & {
+    abortable?: false;
+    responseType: 'ndjson';
+}): FetchResult<AsyncIterableIterator<IOResult<T>>>;
+
 /**
  * Fetches a resource from the network as a Uint8Array<ArrayBuffer>.
  *
@@ -226,7 +342,23 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
  * - **Timeout support**: Set `timeout` in milliseconds to auto-abort long-running requests.
  * - **Progress tracking**: Use `onProgress` callback to track download progress (requires Content-Length header).
  * - **Chunk streaming**: Use `onChunk` callback to receive raw data chunks as they arrive.
+ * - **Upload progress**: Use `onUploadProgress` callback to track upload progress.
+ * - **Query parameters**: Use `query` to merge serialized parameters into the URL.
+ * - **JSON body**: Use `json` to send a serialized JSON request body with matching headers.
+ * - **Schema validation**: Use `schema` to validate JSON responses with any Standard Schema validator or a function.
+ * - **HTTP cache**: Use `httpCache` to cache responses according to `Cache-Control`, `ETag` and `Last-Modified`.
+ * - **Request deduplication**: Use `dedupe` to share one network call between concurrent identical requests.
+ * - **Circuit breaker**: Use `circuitBreaker` to fail fast with `CircuitOpenError` while a service is failing.
+ * - **Server-Sent Events**: Use `responseType: 'sse'` to iterate event stream messages, with optional reconnection.
+ * - **NDJSON streaming**: Use `responseType: 'ndjson'` to iterate parsed lines of newline-delimited JSON.
+ * - **Resumable downloads**: Use `resumable` to continue interrupted downloads with `Range` requests on retry.
+ * - **Concurrency limit**: Use `queue` to cap concurrent requests, optionally per origin.
+ * - **Hedged requests**: Use `hedge` to send duplicates of slow idempotent requests and keep the fastest.
  * - **Retry support**: Use `retry` to automatically retry failed requests with configurable delay and conditions.
+ * - **Middleware**: Use `middleware` to rewrite requests, short-circuit or replace responses on every attempt.
+ * - **Authentication**: Use `auth` to attach bearer tokens and refresh them, or answer Digest challenges, on `401`.
+ * - **Custom fetch**: Use `fetch` to send requests with undici, a polyfill or a test double.
+ * - **Request signing**: Use `sign` to sign the exact request sent on every attempt, e.g. with AWS SigV4 or an HMAC.
  * - **Result type error handling**: Returns `Result<T, Error>` instead of throwing exceptions for runtime errors.
  *
  * **Note**: Invalid parameters throw synchronously (fail-fast) rather than returning rejected Promises.
@@ -240,13 +372,29 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
  * @throws {TypeError} If `responseType` is not a valid response type.
  * @throws {TypeError} If `timeout` is not a number.
  * @throws {Error} If `timeout` is not greater than 0.
- * @throws {TypeError} If `onProgress` or `onChunk` is provided but not a function.
+ * @throws {TypeError} If `onProgress`, `onChunk`, `onUploadProgress` or `onResumeFallback` is provided but not a function.
+ * @throws {TypeError} If `middleware` is not an array of functions.
+ * @throws {TypeError} If `fetch` or `sign` is provided but not a function.
+ * @throws {TypeError} If `query` is not an object, `queryArrayFormat` is invalid or `querySerializer` is not a function.
+ * @throws {TypeError} If `schema` is not a validator or function, or `responseType` is not `'json'`.
+ * @throws {TypeError} If `auth` is not a `FetchAuth`.
+ * @throws {TypeError} If `httpCache` is not a boolean or a `FetchCacheStore`.
+ * @throws {TypeError} If `dedupe` is not a boolean.
+ * @throws {TypeError} If `circuitBreaker` is not a `FetchCircuitBreaker`.
+ * @throws {TypeError} If `queue` is not a `FetchRequestQueue` or `timeoutIncludesQueue` is not a boolean.
+ * @throws {TypeError | Error} If `hedge` is invalid or the request method is not idempotent without `hedge.force`.
+ * @throws {TypeError | Error} If `sse` is invalid or `responseType` is not `'sse'`.
+ * @throws {TypeError} If `resumable` is not a boolean or the request method is not `GET`.
+ * @throws {TypeError} If both `json` and `body` are provided, or `json` cannot be serialized.
  * @throws {TypeError} If `retry.retries` is not an integer.
  * @throws {Error} If `retry.retries` is negative.
- * @throws {TypeError} If `retry.delay` is not a number or function.
+ * @throws {TypeError} If `retry.delay` is not a number, a `FetchBackoffOptions` object or a function.
  * @throws {Error} If `retry.delay` is a negative number.
+ * @throws {TypeError | Error} If `retry.delay` is a `FetchBackoffOptions` object with invalid parameters.
  * @throws {TypeError} If `retry.when` is not an array or function.
  * @throws {TypeError} If `retry.onRetry` is provided but not a function.
+ * @throws {TypeError} If `retry.maxRetryAfter` is not a number.
+ * @throws {Error} If `retry.maxRetryAfter` is negative.
  * @since 1.0.0
  * @example
  * // Basic GET request - returns Response object wrapped in Result
@@ -270,8 +418,7 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
  * // POST request with JSON body
  * const result = await fetchT<User>('https://api.example.com/users', {
  *     method: 'POST',
- *     headers: { 'Content-Type': 'application/json' },
- *     body: JSON.stringify({ name: 'John' }),
+ *     json: { name: 'John' },
  *     responseType: 'json',
  * });
  *
@@ -325,9 +472,6 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
  * });
  */
 export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResponseData> | FetchResult<FetchResponseData> {
-    // Validate and parse URL
-    const parsedUrl = validateUrl(url);
-
     const fetchInit = init ?? {};
 
     const {
@@ -335,6 +479,9 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
         delay: retryDelay,
         when: retryWhen,
         onRetry,
+        respectRetryAfter,
+        respectRateLimitReset,
+        maxRetryAfter,
     } = validateOptions(fetchInit);
 
     const {
@@ -344,9 +491,46 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
         timeout,
         onProgress,
         onChunk,
+        onUploadProgress,
+        middleware = [],
+        fetch: fetchImpl,
+        sign,
+        json,
+        query,
+        queryArrayFormat = 'repeat',
+        querySerializer,
+        schema,
+        auth,
+        httpCache = false,
+        dedupe = false,
+        circuitBreaker,
+        queue,
+        timeoutIncludesQueue = false,
+        hedge,
+        sse,
+        resumable = false,
+        onResumeFallback,
         ...rest
     } = fetchInit;
 
+    // Validate and parse URL, then merge query parameters
+    const parsedUrl = query == null
+        ? validateUrl(url)
+        : applyQuery(validateUrl(url), query, queryArrayFormat, querySerializer);
+
+    if (json !== undefined) {
+        const headers = new Headers(rest.headers);
+        if (!headers.has('content-type')) {
+            headers.set('content-type', 'application/json');
+        }
+        if (!headers.has('accept')) {
+            headers.set('accept', 'application/json');
+        }
+
+        rest.headers = headers;
+        rest.body = JSON.stringify(json);
+    }
+
     // Preserve user's original signal before modifications (rest.signal will be reassigned in setSignal)
     const userSignal = rest.signal;
 
@@ -356,9 +540,17 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
         userController = new AbortController();
     }
 
+    // Aborts by the user only, without the per-attempt timeout
+    const userAbortSignal = userSignal && userController
+        ? AbortSignal.any([userSignal, userController.signal])
+        : userSignal ?? userController?.signal;
+
+    // Retries made so far, shared by the retry loop and the resume attempts of `resumable` bodies
+    let attempt = 0;
+
     /**
      * Determines if the error should trigger a retry.
-     * By default, only network errors (not FetchError) trigger retries.
+     * By default, only network errors (not FetchError or FetchValidationError) trigger retries.
      */
     const shouldRetry = (error: Error, attempt: number): boolean => {
         // Never retry on user abort
@@ -366,9 +558,14 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
             return false;
         }
 
+        // Never retry into an open circuit
+        if (error instanceof CircuitOpenError) {
+            return false;
+        }
+
         if (!retryWhen) {
-            // Default: only retry on network errors (not FetchError/HTTP errors)
-            return !(error instanceof FetchError);
+            // Default: only retry on network errors (not FetchError/HTTP errors or invalid data)
+            return !(error instanceof FetchError || error instanceof FetchValidationError);
         }
 
         if (Array.isArray(retryWhen)) {
@@ -382,11 +579,23 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
 
     /**
      * Calculates the delay before the next retry attempt.
+     * A delay requested by the server headers (capped by `maxRetryAfter`) wins if it is longer.
      */
-    const getRetryDelay = (attempt: number): number => {
-        return typeof retryDelay === 'function'
-            ? retryDelay(attempt)
+    const getRetryDelay = (attempt: number, error: Error): number => {
+        const delayMs = typeof retryDelay === 'function'
+            ? retryDelay(attempt, error)
             : retryDelay;
+
+        if (!(error instanceof FetchError)) {
+            return delayMs;
+        }
+
+        const serverDelayMs = (respectRetryAfter ? parseRetryAfter(error.headers) : undefined)
+            ?? (respectRateLimitReset ? parseRateLimitReset(error.headers) : undefined);
+
+        return serverDelayMs == null
+            ? delayMs
+            : Math.max(delayMs, Math.min(serverDelayMs, maxRetryAfter));
     };
 
     /**
@@ -395,11 +604,11 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
      * Combines multiple signals:
      * - User's external signal (from init.signal)
      * - Internal abort controller signal (for abortable requests)
-     * - Timeout signal (creates a new one each call for per-attempt timeout)
+     * - Timeout signal (creates a new one each call for per-attempt timeout, unless `withTimeout` is false)
      *
      * Must be called before each fetch attempt to ensure fresh timeout signal on retries.
      */
-    const configureSignal = (): void => {
+    const configureSignal = (withTimeout = true): void => {
         const signals: AbortSignal[] = [];
 
         // Merge user's signal from init (if provided)
@@ -411,42 +620,147 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
             signals.push(userController.signal);
         }
 
-        if (typeof timeout === 'number') {
+        if (withTimeout && typeof timeout === 'number') {
             signals.push(AbortSignal.timeout(timeout));
         }
 
-        // Combine all signals
-        if (signals.length > 0) {
-            rest.signal = signals.length === 1
+        // Combine all signals, always replacing the signal of the previous attempt whose timeout may have fired
+        rest.signal = signals.length === 0
+            ? undefined
+            : signals.length === 1
                 ? signals[0]
                 : AbortSignal.any(signals);
+    };
+
+    // Internal middleware run after (inside) user middleware, so they see the final request
+    const pipeline = [...middleware];
+    if (auth) {
+        pipeline.push((request, next) => auth.execute(request, next));
+    }
+    if (httpCache) {
+        pipeline.push(createCacheMiddleware(httpCache === true ? getDefaultCacheStore() : httpCache));
+    }
+    if (dedupe) {
+        pipeline.push(createDedupeMiddleware(responseType));
+    }
+    if (circuitBreaker) {
+        // Innermost, so only requests reaching the network are recorded
+        pipeline.push((request, next) => circuitBreaker.execute(request, next));
+    }
+    if (hedge) {
+        // Below the circuit breaker, so the duplicates of one attempt count as a single outcome
+        pipeline.push(createHedgeMiddleware(hedge));
+    }
+
+    /**
+     * Sends a request through the middleware pipeline to the network, signing it last.
+     */
+    const dispatch = composeMiddleware(pipeline, async request => (fetchImpl ?? fetch)(sign ? await sign(request) : request));
+
+    /**
+     * Sends the request again with extra headers, outside of the retry loop,
+     * to reconnect an event stream or resume a download.
+     */
+    const redispatch = (extraHeaders: Record<string, string>): Promise<Response> => {
+        configureSignal();
+
+        const headers = new Headers(rest.headers);
+        for (const [name, value] of Object.entries(extraHeaders)) {
+            headers.set(name, value);
+        }
+
+        return dispatch(new Request(parsedUrl, { ...rest, headers }));
+    };
+
+    /**
+     * Sends the event stream request again for `responseType: 'sse'` reconnection.
+     */
+    const reconnectSSE = (lastEventId: string): Promise<Response> => {
+        return redispatch(lastEventId ? { 'Last-Event-ID': lastEventId } : {});
+    };
+
+    /**
+     * Decides whether to resume an interrupted `resumable` body, counting and waiting like a retry would.
+     */
+    const beforeResume = async (error: Error): Promise<boolean> => {
+        if (attempt >= retries || !shouldRetry(error, attempt + 1)) {
+            return false;
+        }
+
+        attempt++;
+
+        const delayMs = getRetryDelay(attempt, error);
+        if (delayMs > 0) {
+            await delay(delayMs);
+        }
+
+        if (userController?.signal.aborted) {
+            return false;
+        }
+
+        try {
+            onRetry?.(error, attempt);
+        } catch {
+            // Silently ignore user callback errors
         }
+
+        return true;
     };
 
     /**
      * Performs a single fetch attempt with optional timeout.
+     *
+     * @param restart - The full response received while resuming a `resumable` body, used instead of sending the request.
      */
-    const doFetch = async (): AsyncIOResult<FetchResponseData> => {
-        configureSignal();
+    const doFetch = async (restart?: Response): AsyncIOResult<FetchResponseData> => {
+        configureSignal(!queue || timeoutIncludesQueue);
+
+        let releaseSlot: (() => void) | undefined;
 
         try {
-            const response = await fetch(parsedUrl, rest);
+            if (queue) {
+                releaseSlot = await queue.acquire(parsedUrl, rest.signal ?? undefined);
+
+                if (!timeoutIncludesQueue) {
+                    // Start the timeout once the request leaves the queue
+                    configureSignal();
+                }
+            }
+
+            // Re-create the upload body on every attempt so it can be sent again on retry
+            const requestInit = onUploadProgress && rest.body != null
+                ? await createUploadInit(rest, onUploadProgress)
+                : rest;
+
+            const response = restart ?? await dispatch(new Request(parsedUrl, requestInit));
 
             if (!response.ok) {
                 // Cancel the response body to free resources
                 response.body?.cancel().catch(() => {
                     // Silently ignore stream cancel errors
                 });
-                return Err(new FetchError(response.statusText, response.status));
+                return Err(new FetchError(response.statusText, response.status, response.headers));
+            }
+
+            let body = resumable
+                ? createResumableResponse(response, { request: redispatch, beforeResume, onFallback: onResumeFallback })
+                : response;
+
+            if (releaseSlot && (responseType === 'stream' || responseType === 'sse' || responseType === 'ndjson')) {
+                // The body is read after the result is returned, so it releases the slot itself
+                body = releaseAfterBody(body, releaseSlot);
+                releaseSlot = undefined;
             }
 
-            return await processResponse(response);
+            return await processResponse(body);
         } catch (err) {
             return Err(err instanceof Error
                 ? err
                 // Non-Error type, most likely an abort reason
                 : wrapAbortReason(err),
             );
+        } finally {
+            releaseSlot?.();
         }
     };
 
@@ -512,14 +826,17 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
         switch (responseType) {
             case 'json': {
                 // Align with stream behavior: no body yields Ok(null)
-                if (response.body == null) {
-                    return Ok(null);
-                }
-                try {
-                    return Ok(await response.json());
-                } catch {
-                    return Err(new Error('Response is invalid json while responseType is json'));
+                let data: unknown = null;
+                if (response.body != null) {
+                    try {
+                        data = await response.json();
+                    } catch {
+                        return Err(new Error('Response is invalid json while responseType is json'));
+                    }
                 }
+                return schema
+                    ? await validateSchema(schema, data) as IOResult<FetchResponseData>
+                    : Ok(data as FetchResponseData);
             }
             case 'text': {
                 return Ok(await response.text());
@@ -538,9 +855,30 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
             case 'blob': {
                 return Ok(await response.blob());
             }
+            case 'formData': {
+                // Align with json and stream behavior: no body yields Ok(null)
+                if (response.body == null) {
+                    return Ok(null);
+                }
+                try {
+                    return Ok(await response.formData());
+                } catch (err) {
+                    return Err(new Error('Response is invalid formData while responseType is formData', { cause: err }));
+                }
+            }
             case 'stream': {
                 return Ok(response.body);
             }
+            case 'sse': {
+                return Ok(readSSE(response, {
+                    reconnect: sse?.reconnect ? reconnectSSE : undefined,
+                    retry: sse?.retry ?? 3000,
+                    signal: userAbortSignal,
+                }));
+            }
+            case 'ndjson': {
+                return Ok(readNDJSON(response.body, rest.signal));
+            }
             default: {
                 // default return the original Response object to preserve all metadata
                 return Ok(response);
@@ -553,17 +891,18 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
      */
     const fetchWithRetry = async (): FetchResult<FetchResponseData> => {
         let lastError: Error | undefined;
-        let attempt = 0;
+        // Set when a `resumable` body must restart on a retry already counted while resuming
+        let restart: ResumeRestartError | undefined;
 
         do {
             // Before retry (not first attempt), wait for delay
-            if (attempt > 0) {
+            if (attempt > 0 && restart == null) {
                 // Check if user aborted before delay (e.g., aborted in `when` callback)
                 if (userController?.signal.aborted) {
                     return Err(userController.signal.reason as Error);
                 }
 
-                const delayMs = getRetryDelay(attempt);
+                const delayMs = getRetryDelay(attempt, lastError as Error);
                 // Wait for delay if necessary
                 if (delayMs > 0) {
                     await delay(delayMs);
@@ -582,17 +921,24 @@ export function fetchT(url: string | URL, init?: FetchInit): FetchTask<FetchResp
                 }
             }
 
-            const result = await doFetch();
+            const result = await doFetch(restart?.response);
+            restart = undefined;
 
             if (result.isOk()) {
                 return result;
             }
 
             lastError = result.unwrapErr();
-            attempt++;
+
+            if (lastError instanceof ResumeRestartError) {
+                restart = lastError;
+                lastError = lastError.error;
+            } else {
+                attempt++;
+            }
 
             // Check if we should retry
-        } while (attempt <= retries && shouldRetry(lastError, attempt));
+        } while (restart != null || (attempt <= retries && shouldRetry(lastError, attempt)));
 
         // No more retries or should not retry
         // lastError is guaranteed to be defined here because:
@@ -650,12 +996,122 @@ function wrapAbortReason(reason: unknown): Error {
     return error;
 }
 
+/**
+ * Validates parsed data with a Standard Schema validator or a plain function.
+ * Validation failures are returned as `FetchValidationError`.
+ */
+async function validateSchema<T>(schema: FetchSchema<T>, data: unknown): AsyncIOResult<T> {
+    if (typeof schema === 'function') {
+        return schema(data).mapErr(error => new FetchValidationError([{ message: error.message }], { cause: error }));
+    }
+
+    const result = await schema['~standard'].validate(data);
+
+    return result.issues
+        ? Err(new FetchValidationError(result.issues))
+        : Ok(result.value);
+}
+
+/**
+ * Composes middleware into a single function, with the first middleware as the outermost layer.
+ */
+function composeMiddleware(middleware: FetchMiddleware[], send: FetchMiddlewareNext): FetchMiddlewareNext {
+    return middleware.reduceRight<FetchMiddlewareNext>(
+        (next, current) => async request => current(request, next),
+        send,
+    );
+}
+
+/**
+ * Wraps a response so that `release` is called once its body is fully read, errors or is cancelled.
+ */
+function releaseAfterBody(response: Response, release: () => void): Response {
+    if (response.body == null) {
+        release();
+        return response;
+    }
+
+    const reader = response.body.getReader();
+
+    const body = new ReadableStream<Uint8Array<ArrayBuffer>>({
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read();
+
+                if (done) {
+                    release();
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (err) {
+                release();
+                controller.error(err);
+            }
+        },
+
+        cancel(reason) {
+            release();
+            return reader.cancel(reason);
+        },
+    });
+
+    const wrapped = new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    });
+    Object.defineProperty(wrapped, 'url', { value: response.url });
+
+    return wrapped;
+}
+
+/**
+ * Parses the `Retry-After` header (delay-seconds or HTTP-date) into milliseconds.
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+    const value = headers.get('retry-after')?.trim();
+    if (!value) {
+        return undefined;
+    }
+
+    if (/^\d+$/.test(value)) {
+        return Number.parseInt(value, 10) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date)
+        ? undefined
+        : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parses the `RateLimit-Reset` or `X-RateLimit-Reset` header into milliseconds.
+ * Values that look like a Unix timestamp in seconds are converted to a delay.
+ */
+function parseRateLimitReset(headers: Headers): number | undefined {
+    const value = (headers.get('ratelimit-reset') ?? headers.get('x-ratelimit-reset'))?.trim();
+    if (!value || !/^\d+(\.\d+)?$/.test(value)) {
+        return undefined;
+    }
+
+    const seconds = Number.parseFloat(value);
+
+    // Delta seconds never get close to a Unix timestamp (Sep 2001)
+    return seconds >= 1_000_000_000
+        ? Math.max(0, seconds * 1000 - Date.now())
+        : seconds * 1000;
+}
+
 /**
  * Parsed retry options with defaults applied.
  */
 interface ParsedRetryOptions extends FetchRetryOptions {
     retries: number;
-    delay: number | ((attempt: number) => number);
+    delay: number | ((attempt: number, error: Error) => number);
+    respectRetryAfter: boolean;
+    respectRateLimitReset: boolean;
+    maxRetryAfter: number;
 }
 
 /**
@@ -668,10 +1124,31 @@ function validateOptions(init: FetchInit): ParsedRetryOptions {
         retry: retryOptions = 0,
         onProgress,
         onChunk,
+        onUploadProgress,
+        middleware,
+        fetch: fetchImpl,
+        sign,
+        json,
+        body,
+        query,
+        queryArrayFormat,
+        querySerializer,
+        schema,
+        auth,
+        httpCache,
+        dedupe,
+        circuitBreaker,
+        queue,
+        timeoutIncludesQueue,
+        hedge,
+        sse,
+        resumable,
+        onResumeFallback,
+        method,
     } = init;
 
     if (responseType != null) {
-        const validTypes = ['text', 'arraybuffer', 'blob', 'json', 'bytes', 'stream'];
+        const validTypes = ['text', 'arraybuffer', 'blob', 'json', 'bytes', 'formData', 'stream', 'sse', 'ndjson'];
         if (!validTypes.includes(responseType)) {
             throw new TypeError(`responseType must be one of ${ validTypes.join(', ') } but received ${ responseType }`);
         }
@@ -698,11 +1175,167 @@ function validateOptions(init: FetchInit): ParsedRetryOptions {
         }
     }
 
+    if (onUploadProgress != null) {
+        if (typeof onUploadProgress !== 'function') {
+            throw new TypeError(`onUploadProgress callback must be a function but received ${ typeof onUploadProgress }`);
+        }
+    }
+
+    if (onResumeFallback != null) {
+        if (typeof onResumeFallback !== 'function') {
+            throw new TypeError(`onResumeFallback callback must be a function but received ${ typeof onResumeFallback }`);
+        }
+    }
+
+    if (query != null) {
+        if (typeof query !== 'object' || Array.isArray(query)) {
+            throw new TypeError(`query must be an object but received ${ Array.isArray(query) ? 'array' : typeof query }`);
+        }
+    }
+
+    if (queryArrayFormat != null) {
+        const validFormats = ['repeat', 'brackets', 'comma', 'index'];
+        if (!validFormats.includes(queryArrayFormat)) {
+            throw new TypeError(`queryArrayFormat must be one of ${ validFormats.join(', ') } but received ${ queryArrayFormat }`);
+        }
+    }
+
+    if (querySerializer != null) {
+        if (typeof querySerializer !== 'function') {
+            throw new TypeError(`querySerializer must be a function but received ${ typeof querySerializer }`);
+        }
+    }
+
+    if (schema != null) {
+        if (typeof schema !== 'function' && typeof schema['~standard']?.validate !== 'function') {
+            throw new TypeError('schema must be a Standard Schema validator or a function');
+        }
+        if (responseType !== 'json') {
+            throw new TypeError(`schema can only be used with responseType json but received ${ responseType }`);
+        }
+    }
+
+    if (auth != null) {
+        if (typeof auth !== 'object' || typeof auth.execute !== 'function') {
+            throw new TypeError('auth must be a FetchAuth');
+        }
+    }
+
+    if (httpCache != null && typeof httpCache !== 'boolean') {
+        if (typeof httpCache !== 'object' || typeof httpCache.get !== 'function' || typeof httpCache.set !== 'function' || typeof httpCache.delete !== 'function') {
+            throw new TypeError('httpCache must be a boolean or a FetchCacheStore');
+        }
+    }
+
+    if (dedupe != null) {
+        if (typeof dedupe !== 'boolean') {
+            throw new TypeError(`dedupe must be a boolean but received ${ typeof dedupe }`);
+        }
+    }
+
+    if (circuitBreaker != null) {
+        if (typeof circuitBreaker !== 'object' || typeof circuitBreaker.execute !== 'function') {
+            throw new TypeError('circuitBreaker must be a FetchCircuitBreaker');
+        }
+    }
+
+    if (queue != null) {
+        if (typeof queue !== 'object' || typeof queue.acquire !== 'function') {
+            throw new TypeError('queue must be a FetchRequestQueue');
+        }
+    }
+
+    if (timeoutIncludesQueue != null) {
+        if (typeof timeoutIncludesQueue !== 'boolean') {
+            throw new TypeError(`timeoutIncludesQueue must be a boolean but received ${ typeof timeoutIncludesQueue }`);
+        }
+    }
+
+    if (hedge != null) {
+        if (typeof hedge !== 'object') {
+            throw new TypeError(`hedge must be an object but received ${ typeof hedge }`);
+        }
+        if (typeof hedge.delay !== 'number' || Number.isNaN(hedge.delay)) {
+            throw new TypeError(`hedge delay must be a number but received ${ typeof hedge.delay }`);
+        }
+        if (hedge.delay < 0) {
+            throw new Error(`hedge delay must be a non-negative number but received ${ hedge.delay }`);
+        }
+        if (hedge.maxHedges != null) {
+            if (!Number.isInteger(hedge.maxHedges)) {
+                throw new TypeError(`hedge maxHedges must be an integer but received ${ hedge.maxHedges }`);
+            }
+            if (hedge.maxHedges < 1) {
+                throw new Error(`hedge maxHedges must be greater than 0 but received ${ hedge.maxHedges }`);
+            }
+        }
+        if (hedge.force != null && typeof hedge.force !== 'boolean') {
+            throw new TypeError(`hedge force must be a boolean but received ${ typeof hedge.force }`);
+        }
+        if (!hedge.force && method != null && !IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+            throw new TypeError(`hedge can only be used with idempotent methods unless hedge force is true but received ${ method }`);
+        }
+    }
+
+    if (sse != null) {
+        if (typeof sse !== 'object') {
+            throw new TypeError(`sse must be an object but received ${ typeof sse }`);
+        }
+        if (responseType !== 'sse') {
+            throw new TypeError(`sse can only be used with responseType sse but received ${ responseType }`);
+        }
+        if (sse.reconnect != null && typeof sse.reconnect !== 'boolean') {
+            throw new TypeError(`sse reconnect must be a boolean but received ${ typeof sse.reconnect }`);
+        }
+        if (sse.retry != null) {
+            if (typeof sse.retry !== 'number' || Number.isNaN(sse.retry)) {
+                throw new TypeError(`sse retry must be a number but received ${ typeof sse.retry }`);
+            }
+            if (sse.retry < 0) {
+                throw new Error(`sse retry must be a non-negative number but received ${ sse.retry }`);
+            }
+        }
+    }
+
+    if (resumable != null) {
+        if (typeof resumable !== 'boolean') {
+            throw new TypeError(`resumable must be a boolean but received ${ typeof resumable }`);
+        }
+        if (resumable && method != null && method.toUpperCase() !== 'GET') {
+            throw new TypeError(`resumable can only be used with GET requests but received ${ method }`);
+        }
+    }
+
+    if (json !== undefined && body != null) {
+        throw new TypeError('json and body cannot be used together');
+    }
+
+    if (middleware != null) {
+        if (!Array.isArray(middleware) || middleware.some(fn => typeof fn !== 'function')) {
+            throw new TypeError('middleware must be an array of functions');
+        }
+    }
+
+    if (fetchImpl != null) {
+        if (typeof fetchImpl !== 'function') {
+            throw new TypeError(`fetch must be a function but received ${ typeof fetchImpl }`);
+        }
+    }
+
+    if (sign != null) {
+        if (typeof sign !== 'function') {
+            throw new TypeError(`sign must be a function but received ${ typeof sign }`);
+        }
+    }
+
     // Parse retry options
     let retries = 0;
-    let delay: number | ((attempt: number) => number) = 0;
+    let delay: number | FetchBackoffOptions | ((attempt: number, error: Error) => number) = 0;
     let when: ((error: Error, attempt: number) => boolean) | number[] | undefined;
     let onRetry: ((error: Error, attempt: number) => void) | undefined;
+    let respectRetryAfter = true;
+    let respectRateLimitReset = false;
+    let maxRetryAfter = 60_000;
 
     if (typeof retryOptions === 'number') {
         retries = retryOptions;
@@ -711,6 +1344,9 @@ function validateOptions(init: FetchInit): ParsedRetryOptions {
         delay = retryOptions.delay ?? 0;
         when = retryOptions.when;
         onRetry = retryOptions.onRetry;
+        respectRetryAfter = retryOptions.respectRetryAfter ?? true;
+        respectRateLimitReset = retryOptions.respectRateLimitReset ?? false;
+        maxRetryAfter = retryOptions.maxRetryAfter ?? 60_000;
     }
 
     if (!Number.isInteger(retries)) {
@@ -724,10 +1360,11 @@ function validateOptions(init: FetchInit): ParsedRetryOptions {
         if (delay < 0) {
             throw new Error(`Retry delay must be a non-negative number but received ${ delay }`);
         }
-    } else {
-        if (typeof delay !== 'function') {
-            throw new TypeError(`Retry delay must be a number or a function but received ${ typeof delay }`);
-        }
+    } else if (delay !== null && typeof delay === 'object') {
+        // Fresh state per fetchT call, decorrelated jitter depends on the previous delay
+        delay = createBackoff(delay);
+    } else if (typeof delay !== 'function') {
+        throw new TypeError(`Retry delay must be a number, a function or a { strategy, ... } backoff object but received ${ typeof delay }`);
     }
 
     if (when != null) {
@@ -742,27 +1379,14 @@ function validateOptions(init: FetchInit): ParsedRetryOptions {
         }
     }
 
-    return { retries, delay, when, onRetry };
-}
-
-/**
- * Validates and parses a URL string or URL object.
- * In browser environments, relative URLs are resolved against `location.href`.
- * In non-browser environments (Node/Deno/Bun), only absolute URLs are valid.
- */
-function validateUrl(url: string | URL): URL {
-    if (url instanceof URL) {
-        return url;
+    if (typeof maxRetryAfter !== 'number' || Number.isNaN(maxRetryAfter)) {
+        throw new TypeError(`Retry maxRetryAfter must be a number but received ${ typeof maxRetryAfter }`);
     }
-
-    try {
-        // In browser, use location.href as base for relative URLs
-        // In Node/Deno/Bun, location is undefined, so relative URLs will fail
-        const base = typeof location !== 'undefined' ? location.href : undefined;
-        return new URL(url, base);
-    } catch {
-        throw new TypeError(`Invalid URL: ${ url }`);
+    if (maxRetryAfter < 0) {
+        throw new Error(`Retry maxRetryAfter must be a non-negative number but received ${ maxRetryAfter }`);
     }
+
+    return { retries, delay, when, onRetry, respectRetryAfter, respectRateLimitReset, maxRetryAfter };
 }
 
 // #endregion
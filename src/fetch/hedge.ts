@@ -0,0 +1,95 @@
+import type { FetchHedgeOptions, FetchMiddleware } from './defines.ts';
+
+/**
+ * Methods that may be sent several times without changing the outcome (RFC 9110, section 9.2.2).
+ */
+export const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE', 'PUT', 'DELETE'];
+
+/**
+ * Creates a middleware sending duplicate requests while the response headers are slow to arrive.
+ *
+ * The first response wins and the other requests are aborted. The returned promise only rejects
+ * once every request sent so far has failed, or when the request signal aborts.
+ */
+export function createHedgeMiddleware(options: FetchHedgeOptions): FetchMiddleware {
+    const { delay, maxHedges = 1 } = options;
+
+    return (request, next) => {
+        const { signal } = request;
+
+        // A body can only be read once, so every duplicate is cloned before the first one is sent
+        const copies = request.body == null
+            ? []
+            : Array.from({ length: maxHedges }, () => request.clone());
+
+        return new Promise<Response>((resolve, reject) => {
+            const controllers: AbortController[] = [];
+            let failures = 0;
+            let firstError: unknown;
+            let settled = false;
+            let timer: ReturnType<typeof setTimeout> | undefined;
+
+            const settle = (): void => {
+                settled = true;
+                clearTimeout(timer);
+                signal.removeEventListener('abort', onAbort);
+            };
+
+            const onAbort = (): void => {
+                settle();
+                reject(signal.reason);
+            };
+
+            const send = (): void => {
+                const controller = new AbortController();
+                const index = controllers.push(controller) - 1;
+                const source = index === 0 ? request : copies[index - 1] ?? request;
+
+                next(new Request(source, { signal: AbortSignal.any([signal, controller.signal]) })).then(response => {
+                    if (settled) {
+                        // Lost the race after all
+                        response.body?.cancel().catch(() => {
+                            // Silently ignore stream cancel errors
+                        });
+                        return;
+                    }
+
+                    settle();
+
+                    for (const other of controllers) {
+                        if (other !== controller) {
+                            other.abort();
+                        }
+                    }
+
+                    resolve(response);
+                }, (err: unknown) => {
+                    if (settled) {
+                        return;
+                    }
+
+                    failures += 1;
+                    firstError ??= err;
+
+                    // Fail the attempt as soon as nothing is in flight, `retry` takes over from here
+                    if (failures === controllers.length) {
+                        settle();
+                        reject(firstError);
+                    }
+                });
+
+                if (controllers.length <= maxHedges) {
+                    timer = setTimeout(send, delay);
+                }
+            };
+
+            if (signal.aborted) {
+                reject(signal.reason);
+                return;
+            }
+
+            signal.addEventListener('abort', onAbort, { once: true });
+            send();
+        });
+    };
+}
@@ -0,0 +1,474 @@
+import type { FetchSigner } from './defines.ts';
+import { digest, hmac, toBase64, toHex } from './utils.ts';
+
+/**
+ * Hash algorithm of an HMAC signature.
+ *
+ * @since 1.10.0
+ */
+export type HmacAlgorithm = 'SHA-256' | 'SHA-512';
+
+/**
+ * The parts of a request covered by a `createHmacSigner` signature.
+ *
+ * @since 1.10.0
+ */
+export interface HmacCanonicalParts {
+    /**
+     * The request method, e.g. `'POST'`.
+     */
+    method: string;
+
+    /**
+     * The request URL.
+     */
+    url: URL;
+
+    /**
+     * The path and query string of the URL, e.g. `'/v1/orders?page=2'`.
+     */
+    path: string;
+
+    /**
+     * The selected headers in the configured order, with lower-cased names.
+     * A header missing from the request has an empty value.
+     */
+    headers: [name: string, value: string][];
+
+    /**
+     * The signing timestamp, as written to the timestamp header.
+     */
+    timestamp: string;
+
+    /**
+     * The hex-encoded digest of the body, using the signature hash algorithm.
+     */
+    bodyHash: string;
+}
+
+/**
+ * Options for `createHmacSigner`.
+ *
+ * @since 1.10.0
+ */
+export interface HmacSignerOptions {
+    /**
+     * The shared secret, a string being encoded as UTF-8.
+     */
+    key: string | BufferSource;
+
+    /**
+     * @defaultValue 'SHA-256'
+     */
+    algorithm?: HmacAlgorithm;
+
+    /**
+     * Names of the request headers covered by the signature, in canonical order.
+     *
+     * @defaultValue []
+     */
+    headers?: string[];
+
+    /**
+     * Builds the string to sign.
+     *
+     * The default joins, one per line: the method, the path with query string, a `name:value` line
+     * per selected header, the timestamp and the body hash.
+     */
+    canonicalize?: (parts: HmacCanonicalParts) => string;
+
+    /**
+     * Formats the signing time.
+     *
+     * @defaultValue Unix time in seconds
+     */
+    timestamp?: (date: Date) => string;
+
+    /**
+     * @defaultValue 'hex'
+     */
+    encoding?: 'hex' | 'base64';
+
+    /**
+     * Header receiving the signature.
+     *
+     * @defaultValue 'X-Signature'
+     */
+    signatureHeader?: string;
+
+    /**
+     * Header receiving the timestamp.
+     *
+     * @defaultValue 'X-Timestamp'
+     */
+    timestampHeader?: string;
+
+    /**
+     * Returns the signing time.
+     *
+     * @defaultValue () => new Date()
+     */
+    now?: () => Date;
+}
+
+/**
+ * Options for `createHttpMessageSigner`.
+ *
+ * @since 1.10.0
+ */
+export interface HttpMessageSignerOptions {
+    /**
+     * The shared secret, a string being encoded as UTF-8.
+     */
+    key: string | BufferSource;
+
+    /**
+     * The `keyid` signature parameter, identifying the key to the server.
+     */
+    keyId: string;
+
+    /**
+     * @defaultValue 'SHA-256'
+     */
+    algorithm?: HmacAlgorithm;
+
+    /**
+     * Covered components: derived components (`@method`, `@target-uri`, `@authority`, `@scheme`,
+     * `@request-target`, `@path` and `@query`) and header names.
+     *
+     * A listed `content-digest` header is computed from the body unless the request already has one.
+     *
+     * @defaultValue ['@method', '@target-uri'], followed by 'content-digest' for requests with a body
+     */
+    components?: string[];
+
+    /**
+     * Label of the signature in the `Signature-Input` and `Signature` dictionaries.
+     *
+     * @defaultValue 'sig1'
+     */
+    label?: string;
+
+    /**
+     * Adds the `alg` signature parameter, `hmac-sha256` or `hmac-sha512`.
+     *
+     * @defaultValue false
+     */
+    includeAlg?: boolean;
+
+    /**
+     * Seconds after the signing time at which the signature expires, sent as the `expires` parameter.
+     */
+    expiresIn?: number;
+
+    /**
+     * Returns a fresh `nonce` signature parameter for every request.
+     */
+    nonce?: () => string;
+
+    /**
+     * The `tag` signature parameter, identifying the application profile.
+     */
+    tag?: string;
+
+    /**
+     * Returns the signing time.
+     *
+     * @defaultValue () => new Date()
+     */
+    now?: () => Date;
+}
+
+/**
+ * Derived components supported by `createHttpMessageSigner` (RFC 9421, section 2.2).
+ */
+const DERIVED_COMPONENTS = ['@method', '@target-uri', '@authority', '@scheme', '@request-target', '@path', '@query'];
+
+/**
+ * Creates a `FetchSigner` signing requests with an HMAC over a configurable canonical string, using WebCrypto.
+ *
+ * Every request sent is signed right before it goes out, including retries, so the timestamp
+ * is always fresh. The signature and the timestamp are written to their own headers, and the
+ * body is buffered to be hashed.
+ *
+ * @param options - Signer options.
+ * @returns A `FetchSigner` for the `sign` option.
+ * @throws {TypeError} If `key` is not a string or a `BufferSource`, or `algorithm` or `encoding` is invalid.
+ * @throws {TypeError} If `headers` is not an array of strings, or a header option is not a non-empty string.
+ * @throws {TypeError} If `canonicalize`, `timestamp` or `now` is provided but not a function.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createFetchT, createHmacSigner } from '@happy-ts/fetch-t';
+ *
+ * const partner = createFetchT({
+ *     baseURL: 'https://partner.example.com/',
+ *     sign: createHmacSigner({
+ *         key: process.env.PARTNER_SECRET!,
+ *         headers: ['content-type'],
+ *         encoding: 'base64',
+ *         signatureHeader: 'X-Partner-Signature',
+ *         timestampHeader: 'X-Partner-Timestamp',
+ *     }),
+ *     retry: { retries: 2, when: [503] },
+ * });
+ *
+ * const result = await partner('v1/orders', { method: 'POST', json: order });
+ * ```
+ */
+export function createHmacSigner(options: HmacSignerOptions): FetchSigner {
+    const {
+        key,
+        algorithm = 'SHA-256',
+        headers: signedHeaders = [],
+        canonicalize = defaultCanonicalize,
+        timestamp = (date: Date) => String(Math.floor(date.getTime() / 1000)),
+        encoding = 'hex',
+        signatureHeader = 'X-Signature',
+        timestampHeader = 'X-Timestamp',
+        now = () => new Date(),
+    } = options;
+
+    const rawKey = validateKey(key);
+    validateAlgorithm(algorithm);
+
+    if (!Array.isArray(signedHeaders) || signedHeaders.some(name => typeof name !== 'string')) {
+        throw new TypeError('headers must be an array of strings');
+    }
+    if (encoding !== 'hex' && encoding !== 'base64') {
+        throw new TypeError(`encoding must be one of hex, base64 but received ${ encoding }`);
+    }
+    for (const [name, value] of Object.entries({ signatureHeader, timestampHeader })) {
+        if (typeof value !== 'string' || value === '') {
+            throw new TypeError(`${ name } must be a non-empty string but received ${ JSON.stringify(value) }`);
+        }
+    }
+    for (const [name, value] of Object.entries({ canonicalize, timestamp, now })) {
+        if (typeof value !== 'function') {
+            throw new TypeError(`${ name } must be a function but received ${ typeof value }`);
+        }
+    }
+
+    return async request => {
+        const url = new URL(request.url);
+        const signedAt = timestamp(now());
+
+        const parts: HmacCanonicalParts = {
+            method: request.method.toUpperCase(),
+            url,
+            path: `${ url.pathname }${ url.search }`,
+            headers: signedHeaders.map(name => [name.toLowerCase(), request.headers.get(name)?.trim() ?? '']),
+            timestamp: signedAt,
+            bodyHash: toHex(await digest(algorithm, await readBody(request))),
+        };
+
+        const signature = await hmac(algorithm, rawKey, canonicalize(parts));
+
+        const headers = new Headers(request.headers);
+        headers.set(timestampHeader, signedAt);
+        headers.set(signatureHeader, encoding === 'hex' ? toHex(signature) : toBase64(signature));
+
+        return new Request(request, { headers });
+    };
+}
+
+/**
+ * Creates a `FetchSigner` signing requests with HTTP Message Signatures (RFC 9421) using an HMAC, with WebCrypto.
+ *
+ * Every request sent is signed right before it goes out, including retries, with a fresh `created`
+ * parameter. The signature is written to the `Signature-Input` and `Signature` headers, and the
+ * `Content-Digest` header (RFC 9530) is computed from the buffered body when it is covered.
+ *
+ * A request missing a covered header fails with an `Error`.
+ *
+ * @param options - Signer options.
+ * @returns A `FetchSigner` for the `sign` option.
+ * @throws {TypeError} If `key` is not a string or a `BufferSource`, or `algorithm` is invalid.
+ * @throws {TypeError} If `keyId`, `label` or `tag` is not a non-empty string.
+ * @throws {TypeError} If `components` is not an array of strings or contains an unsupported derived component.
+ * @throws {Error} If `expiresIn` is not a positive number.
+ * @throws {TypeError} If `nonce` or `now` is provided but not a function.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createFetchT, createHttpMessageSigner } from '@happy-ts/fetch-t';
+ *
+ * const api = createFetchT({
+ *     baseURL: 'https://api.example.com/',
+ *     sign: createHttpMessageSigner({
+ *         key: secretBytes,
+ *         keyId: 'client-2026',
+ *         components: ['@method', '@authority', '@path', '@query', 'content-type', 'content-digest'],
+ *         includeAlg: true,
+ *     }),
+ * });
+ *
+ * // Sent with Signature-Input: sig1=("@method" "@authority" ...);created=...;keyid="client-2026";alg="hmac-sha256"
+ * // and Signature: sig1=:<base64 HMAC>:
+ * const result = await api('v1/payments', { method: 'POST', json: payment });
+ * ```
+ */
+export function createHttpMessageSigner(options: HttpMessageSignerOptions): FetchSigner {
+    const {
+        key,
+        keyId,
+        algorithm = 'SHA-256',
+        components,
+        label = 'sig1',
+        includeAlg = false,
+        expiresIn,
+        nonce,
+        tag,
+        now = () => new Date(),
+    } = options;
+
+    const rawKey = validateKey(key);
+    validateAlgorithm(algorithm);
+
+    for (const [name, value] of Object.entries({ keyId, label, ...tag != null && { tag } })) {
+        if (typeof value !== 'string' || value === '') {
+            throw new TypeError(`${ name } must be a non-empty string but received ${ JSON.stringify(value) }`);
+        }
+    }
+    if (components != null) {
+        if (!Array.isArray(components) || components.some(name => typeof name !== 'string' || name === '')) {
+            throw new TypeError('components must be an array of non-empty strings');
+        }
+        const unsupported = components.find(name => name.startsWith('@') && !DERIVED_COMPONENTS.includes(name));
+        if (unsupported != null) {
+            throw new TypeError(`components must only contain the derived components ${ DERIVED_COMPONENTS.join(', ') } but received ${ unsupported }`);
+        }
+    }
+    if (expiresIn != null && (typeof expiresIn !== 'number' || !(expiresIn > 0))) {
+        throw new Error(`expiresIn must be a positive number but received ${ expiresIn }`);
+    }
+    for (const [name, value] of Object.entries({ nonce, now })) {
+        if (value != null && typeof value !== 'function') {
+            throw new TypeError(`${ name } must be a function but received ${ typeof value }`);
+        }
+    }
+
+    const alg = algorithm === 'SHA-256' ? 'hmac-sha256' : 'hmac-sha512';
+
+    return async request => {
+        const url = new URL(request.url);
+        const headers = new Headers(request.headers);
+
+        const covered = (components ?? (request.body == null
+            ? ['@method', '@target-uri']
+            : ['@method', '@target-uri', 'content-digest'])).map(name => name.toLowerCase());
+
+        if (covered.includes('content-digest') && !headers.has('content-digest')) {
+            const bodyDigest = await digest(algorithm, await readBody(request));
+            headers.set('content-digest', `${ algorithm.toLowerCase() }=:${ toBase64(bodyDigest) }:`);
+        }
+
+        const created = Math.floor(now().getTime() / 1000);
+
+        let params = `(${ covered.map(name => `"${ name }"`).join(' ') });created=${ created }`;
+        if (expiresIn != null) {
+            params += `;expires=${ created + Math.ceil(expiresIn) }`;
+        }
+        if (nonce != null) {
+            params += `;nonce=${ JSON.stringify(nonce()) }`;
+        }
+        params += `;keyid=${ JSON.stringify(keyId) }`;
+        if (includeAlg) {
+            params += `;alg="${ alg }"`;
+        }
+        if (tag != null) {
+            params += `;tag=${ JSON.stringify(tag) }`;
+        }
+
+        const signatureBase = [
+            ...covered.map(name => `"${ name }": ${ getComponentValue(name, url, request.method, headers) }`),
+            `"@signature-params": ${ params }`,
+        ].join('\n');
+
+        const signature = await hmac(algorithm, rawKey, signatureBase);
+
+        headers.set('signature-input', `${ label }=${ params }`);
+        headers.set('signature', `${ label }=:${ toBase64(signature) }:`);
+
+        return new Request(request, { headers });
+    };
+}
+
+/**
+ * Builds the default canonical string of `createHmacSigner`.
+ */
+function defaultCanonicalize(parts: HmacCanonicalParts): string {
+    return [
+        parts.method,
+        parts.path,
+        ...parts.headers.map(([name, value]) => `${ name }:${ value }`),
+        parts.timestamp,
+        parts.bodyHash,
+    ].join('\n');
+}
+
+/**
+ * Returns the value of a covered component (RFC 9421, sections 2.1 and 2.2).
+ */
+function getComponentValue(name: string, url: URL, method: string, headers: Headers): string {
+    switch (name) {
+        case '@method': {
+            return method;
+        }
+        case '@target-uri': {
+            return url.href;
+        }
+        case '@authority': {
+            return url.host;
+        }
+        case '@scheme': {
+            return url.protocol.slice(0, -1);
+        }
+        case '@request-target': {
+            return `${ url.pathname }${ url.search }`;
+        }
+        case '@path': {
+            return url.pathname || '/';
+        }
+        case '@query': {
+            return url.search || '?';
+        }
+    }
+
+    const value = headers.get(name);
+    if (value == null) {
+        throw new Error(`Covered component ${ name } is missing from the request`);
+    }
+
+    return value.trim();
+}
+
+/**
+ * Validates an HMAC key, encoding a string as UTF-8.
+ */
+function validateKey(key: string | BufferSource): BufferSource {
+    if (typeof key === 'string') {
+        return new TextEncoder().encode(key);
+    }
+    if (key instanceof ArrayBuffer || ArrayBuffer.isView(key)) {
+        return key;
+    }
+
+    throw new TypeError(`key must be a string or a BufferSource but received ${ key === null ? 'null' : typeof key }`);
+}
+
+/**
+ * Validates the hash algorithm of an HMAC.
+ */
+function validateAlgorithm(algorithm: HmacAlgorithm): void {
+    if (algorithm !== 'SHA-256' && algorithm !== 'SHA-512') {
+        throw new TypeError(`algorithm must be one of SHA-256, SHA-512 but received ${ algorithm }`);
+    }
+}
+
+/**
+ * Reads a copy of the request body, empty if there is none.
+ */
+async function readBody(request: Request): Promise<ArrayBuffer> {
+    return request.body == null ? new ArrayBuffer(0) : request.clone().arrayBuffer();
+}
@@ -0,0 +1,80 @@
+/**
+ * MD5 message digest (RFC 1321), which WebCrypto does not provide.
+ *
+ * Only needed by HTTP Digest authentication for servers that do not support SHA-256.
+ * This module is not re-exported from `mod.ts`.
+ */
+
+/**
+ * Per-round left rotation amounts.
+ */
+const SHIFTS = [
+    [7, 12, 17, 22],
+    [5, 9, 14, 20],
+    [4, 11, 16, 23],
+    [6, 10, 15, 21],
+];
+
+/**
+ * Additive constants, the integer part of `abs(sin(i + 1)) * 2^32`.
+ */
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32));
+
+/**
+ * Computes the MD5 digest of some bytes.
+ */
+export function md5(data: Uint8Array): ArrayBuffer {
+    const { length } = data;
+
+    // Padding: a 1 bit, zeros, then the bit length as a 64-bit little-endian integer
+    const padded = new Uint8Array((((length + 8) >>> 6) << 6) + 64);
+    padded.set(data);
+    padded[length] = 0x80;
+
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, length * 8, true);
+    view.setUint32(padded.length - 4, Math.floor(length / 2 ** 29), true);
+
+    const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        let [a, b, c, d] = state;
+
+        for (let i = 0; i < 64; i++) {
+            let f: number;
+            let g: number;
+
+            if (i < 16) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (i < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (i < 48) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+
+            const shift = SHIFTS[i >>> 4][i % 4];
+            const sum = (a + f + CONSTANTS[i] + view.getUint32(offset + g * 4, true)) | 0;
+
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+        }
+
+        state[0] = (state[0] + a) | 0;
+        state[1] = (state[1] + b) | 0;
+        state[2] = (state[2] + c) | 0;
+        state[3] = (state[3] + d) | 0;
+    }
+
+    const result = new DataView(new ArrayBuffer(16));
+    state.forEach((word, i) => result.setUint32(i * 4, word, true));
+
+    return result.buffer;
+}
@@ -0,0 +1,516 @@
+/**
+ * Matches requests by method, URL, headers and body.
+ *
+ * Every given field must match. Omitted fields match any request.
+ *
+ * @since 1.10.0
+ */
+export interface MockRouteMatcher {
+    /**
+     * HTTP method, compared case-insensitively.
+     */
+    method?: string;
+
+    /**
+     * URL pattern matched against the request URL.
+     *
+     * - `string` - `:name` matches one path segment (captured in `params`) and `*` matches anything.
+     *   Patterns starting with `/` are matched against the path only, absolute patterns against the
+     *   origin and path. The query string is ignored unless the pattern contains `?`.
+     * - `RegExp` - Tested against the full URL, named groups are captured in `params`
+     * - `function` - Receives the parsed URL
+     */
+    url?: string | RegExp | ((url: URL) => boolean);
+
+    /**
+     * Header values the request must have, compared exactly or tested with a `RegExp`.
+     * Header names are case-insensitive.
+     */
+    headers?: Record<string, string | RegExp>;
+
+    /**
+     * Request body, compared exactly, tested with a `RegExp` or passed to a function as text.
+     */
+    body?: string | RegExp | ((body: string) => boolean);
+
+    /**
+     * Number of requests the route answers before it stops matching.
+     *
+     * @defaultValue Infinity
+     */
+    times?: number;
+}
+
+/**
+ * Describes a canned response.
+ *
+ * @since 1.10.0
+ */
+export interface MockResponseInit {
+    /**
+     * @defaultValue 200
+     */
+    status?: number;
+
+    /**
+     * @defaultValue ''
+     */
+    statusText?: string;
+
+    /**
+     * Response headers.
+     */
+    headers?: HeadersInit;
+
+    /**
+     * Response body.
+     */
+    body?: BodyInit | null;
+
+    /**
+     * Serialized as the response body, with `Content-Type: application/json` unless set in `headers`.
+     */
+    json?: unknown;
+
+    /**
+     * Streams the body in these chunks, waiting `chunkDelay` between them.
+     */
+    chunks?: (string | Uint8Array<ArrayBuffer>)[];
+
+    /**
+     * Milliseconds to wait between `chunks`.
+     *
+     * @defaultValue 0
+     */
+    chunkDelay?: number;
+
+    /**
+     * Milliseconds to wait before the response headers arrive.
+     *
+     * @defaultValue 0
+     */
+    delay?: number;
+
+    /**
+     * Fails the request like a network error instead of responding.
+     * `true` rejects with `TypeError('Failed to fetch')`.
+     */
+    error?: true | Error;
+}
+
+/**
+ * A recorded request sent to a mock fetch.
+ *
+ * @since 1.10.0
+ */
+export interface MockFetchCall {
+    /**
+     * The request as received, with its body already read into `body`.
+     */
+    request: Request;
+
+    /**
+     * Upper-cased HTTP method.
+     */
+    method: string;
+
+    /**
+     * Parsed request URL.
+     */
+    url: URL;
+
+    /**
+     * Request body as text, empty when the request has no body.
+     */
+    body: string;
+
+    /**
+     * Parameters captured by the URL pattern of the matched route.
+     */
+    params: Record<string, string>;
+
+    /**
+     * Whether a route answered the request.
+     */
+    matched: boolean;
+}
+
+/**
+ * A response for a matched route: a `Response`, a `MockResponseInit`,
+ * or a function producing either from the recorded call.
+ *
+ * A `Response` can only be read once, so use a function for routes answering several requests.
+ *
+ * @since 1.10.0
+ */
+export type MockResponse =
+    | Response
+    | MockResponseInit
+    | ((call: MockFetchCall) => Response | MockResponseInit | Promise<Response | MockResponseInit>);
+
+/**
+ * A mock `fetch` implementation created by `createMockFetch`.
+ *
+ * @since 1.10.0
+ */
+export interface MockFetch {
+    /**
+     * The `fetch` function to pass as the `fetch` option of `fetchT` or `createFetchT`.
+     */
+    readonly fetch: typeof fetch;
+
+    /**
+     * Every request received so far, in order, including unmatched ones.
+     */
+    readonly calls: readonly MockFetchCall[];
+
+    /**
+     * Adds a route. Routes are matched in the order they were added.
+     * A string matcher is a URL pattern matching any method.
+     */
+    route(matcher: string | MockRouteMatcher, response: MockResponse): MockFetch;
+
+    /**
+     * Adds a `GET` route for a URL pattern.
+     */
+    get(url: string | RegExp, response: MockResponse): MockFetch;
+
+    /**
+     * Adds a `POST` route for a URL pattern.
+     */
+    post(url: string | RegExp, response: MockResponse): MockFetch;
+
+    /**
+     * Adds a `PUT` route for a URL pattern.
+     */
+    put(url: string | RegExp, response: MockResponse): MockFetch;
+
+    /**
+     * Adds a `PATCH` route for a URL pattern.
+     */
+    patch(url: string | RegExp, response: MockResponse): MockFetch;
+
+    /**
+     * Adds a `DELETE` route for a URL pattern.
+     */
+    delete(url: string | RegExp, response: MockResponse): MockFetch;
+
+    /**
+     * Removes every route and recorded call.
+     */
+    reset(): void;
+}
+
+/**
+ * A registered route.
+ */
+interface Route {
+    matcher: MockRouteMatcher;
+    response: MockResponse;
+    remaining: number;
+}
+
+/**
+ * Creates a mock `fetch` answering requests from routes, without patching any global.
+ *
+ * Requests matching no route reject with an `Error`, which `fetchT` returns as `Err`.
+ * Delays and streamed chunks honor the request's abort signal like a real `fetch`:
+ * the call rejects, or the body stream errors, with the abort reason.
+ *
+ * @returns A `MockFetch` whose `fetch` can be passed to `fetchT`.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchT } from '@happy-ts/fetch-t';
+ * import { createMockFetch } from '@happy-ts/fetch-t/testing';
+ *
+ * const mock = createMockFetch()
+ *     .get('https://api.example.com/users/:id', ({ params }) => ({ json: { id: params.id } }))
+ *     .post('https://api.example.com/users', { status: 201, delay: 50 });
+ *
+ * const result = await fetchT('https://api.example.com/users/1', {
+ *     fetch: mock.fetch,
+ *     responseType: 'json',
+ * });
+ *
+ * console.log(mock.calls.length); // 1
+ * ```
+ */
+export function createMockFetch(): MockFetch {
+    const routes: Route[] = [];
+    const calls: MockFetchCall[] = [];
+
+    const mockFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const request = new Request(input, init);
+        const { signal } = request;
+
+        if (signal.aborted) {
+            throw signal.reason;
+        }
+
+        const call: MockFetchCall = {
+            request,
+            method: request.method.toUpperCase(),
+            url: new URL(request.url),
+            body: request.body == null ? '' : await request.clone().text(),
+            params: {},
+            matched: false,
+        };
+        calls.push(call);
+
+        for (const route of routes) {
+            if (route.remaining <= 0) {
+                continue;
+            }
+
+            const params = matchRoute(route.matcher, call);
+            if (params == null) {
+                continue;
+            }
+
+            route.remaining -= 1;
+            call.params = params;
+            call.matched = true;
+
+            const response = typeof route.response === 'function'
+                ? await route.response(call)
+                : route.response;
+
+            return response instanceof Response
+                ? response
+                : createResponse(response, call);
+        }
+
+        throw new Error(`No mock route matches ${ call.method } ${ request.url }`);
+    };
+
+    const mock: MockFetch = Object.freeze({
+        fetch: mockFetch,
+
+        get calls(): readonly MockFetchCall[] {
+            return calls;
+        },
+
+        route(matcher: string | MockRouteMatcher, response: MockResponse): MockFetch {
+            const routeMatcher = typeof matcher === 'string' ? { url: matcher } : matcher;
+            routes.push({
+                matcher: routeMatcher,
+                response,
+                remaining: routeMatcher.times ?? Infinity,
+            });
+            return mock;
+        },
+
+        get(url: string | RegExp, response: MockResponse): MockFetch {
+            return mock.route({ method: 'GET', url }, response);
+        },
+
+        post(url: string | RegExp, response: MockResponse): MockFetch {
+            return mock.route({ method: 'POST', url }, response);
+        },
+
+        put(url: string | RegExp, response: MockResponse): MockFetch {
+            return mock.route({ method: 'PUT', url }, response);
+        },
+
+        patch(url: string | RegExp, response: MockResponse): MockFetch {
+            return mock.route({ method: 'PATCH', url }, response);
+        },
+
+        delete(url: string | RegExp, response: MockResponse): MockFetch {
+            return mock.route({ method: 'DELETE', url }, response);
+        },
+
+        reset(): void {
+            routes.length = 0;
+            calls.length = 0;
+        },
+    });
+
+    return mock;
+}
+
+/**
+ * Returns the captured URL parameters if the route matches the call, otherwise `undefined`.
+ */
+function matchRoute(matcher: MockRouteMatcher, call: MockFetchCall): Record<string, string> | undefined {
+    const { method, url, headers, body } = matcher;
+
+    if (method != null && method.toUpperCase() !== call.method) {
+        return undefined;
+    }
+
+    if (headers != null) {
+        for (const [name, expected] of Object.entries(headers)) {
+            const value = call.request.headers.get(name);
+            if (value == null || !matchText(expected, value)) {
+                return undefined;
+            }
+        }
+    }
+
+    if (body != null) {
+        const matched = typeof body === 'function'
+            ? body(call.body)
+            : matchText(body, call.body);
+        if (!matched) {
+            return undefined;
+        }
+    }
+
+    if (url == null) {
+        return {};
+    }
+
+    if (typeof url === 'function') {
+        return url(call.url) ? {} : undefined;
+    }
+
+    if (url instanceof RegExp) {
+        const match = url.exec(call.url.href);
+        return match == null ? undefined : { ...match.groups };
+    }
+
+    return matchUrlPattern(url, call.url);
+}
+
+/**
+ * Compares a string exactly or tests it with a `RegExp`.
+ */
+function matchText(expected: string | RegExp, value: string): boolean {
+    return typeof expected === 'string'
+        ? expected === value
+        : expected.test(value);
+}
+
+/**
+ * Matches a URL against a `:name` / `*` pattern, returning the captured parameters.
+ */
+function matchUrlPattern(pattern: string, url: URL): Record<string, string> | undefined {
+    const names: string[] = [];
+    const source = pattern
+        .split(/(:[A-Za-z_]\w*|\*)/)
+        .map(part => {
+            if (part === '*') {
+                return '.*';
+            }
+            if (part.startsWith(':')) {
+                names.push(part.slice(1));
+                return '([^/?#]+)';
+            }
+            return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+
+    const target = (pattern.startsWith('/') ? '' : url.origin)
+        + url.pathname
+        + (pattern.includes('?') ? url.search : '');
+
+    const match = new RegExp(`^${ source }$`).exec(target);
+    if (match == null) {
+        return undefined;
+    }
+
+    return Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+}
+
+/**
+ * Builds a `Response` from a `MockResponseInit`, honoring the request's abort signal.
+ */
+async function createResponse(init: MockResponseInit, call: MockFetchCall): Promise<Response> {
+    const { status = 200, statusText = '', json, chunks, chunkDelay = 0, delay = 0, error } = init;
+    const { signal } = call.request;
+
+    if (delay > 0) {
+        await sleep(delay, signal);
+    }
+
+    if (signal.aborted) {
+        throw signal.reason;
+    }
+
+    if (error != null) {
+        throw error === true ? new TypeError('Failed to fetch') : error;
+    }
+
+    const headers = new Headers(init.headers);
+    let body: BodyInit | null = init.body ?? null;
+
+    if (json !== undefined) {
+        body = JSON.stringify(json);
+        if (!headers.has('content-type')) {
+            headers.set('content-type', 'application/json');
+        }
+    } else if (chunks != null) {
+        body = createChunkStream(chunks, chunkDelay, signal);
+    }
+
+    // Like a real fetch, HEAD responses and null body statuses have no body
+    const response = new Response(call.method === 'HEAD' || [101, 204, 205, 304].includes(status) ? null : body, {
+        status,
+        statusText,
+        headers,
+    });
+
+    Object.defineProperty(response, 'url', { value: call.request.url });
+
+    return response;
+}
+
+/**
+ * Creates a body stream emitting the chunks one by one, erroring with the abort reason on abort.
+ */
+function createChunkStream(chunks: (string | Uint8Array<ArrayBuffer>)[], chunkDelay: number, signal: AbortSignal): ReadableStream<Uint8Array<ArrayBuffer>> {
+    const encoder = new TextEncoder();
+    let index = 0;
+
+    return new ReadableStream<Uint8Array<ArrayBuffer>>({
+        async pull(controller): Promise<void> {
+            if (index > 0 && chunkDelay > 0) {
+                try {
+                    await sleep(chunkDelay, signal);
+                } catch (err) {
+                    controller.error(err);
+                    return;
+                }
+            }
+
+            if (signal.aborted) {
+                controller.error(signal.reason);
+                return;
+            }
+
+            if (index >= chunks.length) {
+                controller.close();
+                return;
+            }
+
+            const chunk = chunks[index++];
+            controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+        },
+    });
+}
+
+/**
+ * Waits for `ms` milliseconds, rejecting with the abort reason if `signal` aborts first.
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,87 @@
+import { Err, Ok, type IOResult } from 'happy-rusty';
+import { FetchNDJSONError } from './defines.ts';
+
+/**
+ * Reads a newline-delimited JSON response body as parsed values, one per line.
+ *
+ * Lines end with LF or CRLF, the last line may omit the newline, and blank lines are skipped.
+ * A malformed line yields an `Err` with a `FetchNDJSONError` and reading continues.
+ * A failing stream (e.g. network error) or an aborted `signal` yields its error as the last item.
+ */
+export async function* readNDJSON<T>(body: ReadableStream<Uint8Array> | null, signal?: AbortSignal | null): AsyncGenerator<IOResult<T>, void, undefined> {
+    if (body == null) {
+        return;
+    }
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+
+    // Stop reading on abort even if the body does not follow the request signal
+    const onAbort = (): void => {
+        reader.cancel(signal?.reason).catch(() => {
+            // Silently ignore stream cancel errors
+        });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let buffer = '';
+    let lineNumber = 0;
+
+    const parseLine = (line: string): IOResult<T> | undefined => {
+        lineNumber++;
+
+        if (line.endsWith('\r')) {
+            line = line.slice(0, -1);
+        }
+        if (line.trim() === '') {
+            return;
+        }
+
+        try {
+            return Ok(JSON.parse(line) as T);
+        } catch (err) {
+            return Err(new FetchNDJSONError(lineNumber, line, { cause: err }));
+        }
+    };
+
+    try {
+        while (true) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await reader.read();
+            } catch (err) {
+                yield Err(err as Error);
+                return;
+            }
+
+            const { done, value } = chunk;
+
+            if (signal?.aborted) {
+                yield Err(signal.reason as Error);
+                return;
+            }
+
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            const lines = buffer.split('\n');
+            // Keep the incomplete last line, unless the stream has ended
+            buffer = done ? '' : lines.pop() as string;
+
+            for (const line of lines) {
+                const item = parseLine(line);
+                if (item != null) {
+                    yield item;
+                }
+            }
+
+            if (done) {
+                return;
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        reader.cancel().catch(() => {
+            // Silently ignore stream cancel errors
+        });
+    }
+}
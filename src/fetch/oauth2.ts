@@ -0,0 +1,370 @@
+import { Err, Ok, type AsyncIOResult, type IOResult } from 'happy-rusty';
+import { createBearerAuth } from './auth.ts';
+import { OAuth2Error, type FetchAuth, type FetchInit, type FetchMiddleware } from './defines.ts';
+import { fetchT } from './fetch.ts';
+import { validateUrl } from './utils.ts';
+
+/**
+ * OAuth2 grant used to obtain access tokens.
+ *
+ * - `'client_credentials'` - Authenticate as the client itself (RFC 6749, section 4.4)
+ * - `'refresh_token'` - Exchange a refresh token, keeping the rotated one (RFC 6749, section 6)
+ *
+ * @since 1.10.0
+ */
+export type OAuth2Grant = 'client_credentials' | 'refresh_token';
+
+/**
+ * How the client authenticates to the token endpoint (RFC 6749, section 2.3.1).
+ *
+ * - `'basic'` - HTTP Basic `Authorization` header
+ * - `'body'` - `client_id` and `client_secret` in the request body
+ *
+ * @since 1.10.0
+ */
+export type OAuth2ClientAuth = 'basic' | 'body';
+
+/**
+ * A token issued by the token endpoint.
+ *
+ * @since 1.10.0
+ */
+export interface OAuth2Token {
+    /**
+     * The access token.
+     */
+    accessToken: string;
+
+    /**
+     * The token type, usually `'Bearer'`.
+     */
+    tokenType: string;
+
+    /**
+     * Lifetime of the access token in seconds, if the server sent one.
+     */
+    expiresIn?: number;
+
+    /**
+     * The refresh token, if the server issued one.
+     */
+    refreshToken?: string;
+
+    /**
+     * The granted scope, if the server sent one.
+     */
+    scope?: string;
+}
+
+/**
+ * Options for `createOAuth2TokenManager`.
+ *
+ * @since 1.10.0
+ */
+export interface OAuth2TokenManagerOptions {
+    /**
+     * URL of the token endpoint.
+     */
+    tokenUrl: string | URL;
+
+    /**
+     * The client identifier.
+     */
+    clientId: string;
+
+    /**
+     * The client secret. Public clients without secret always send `client_id` in the body.
+     */
+    clientSecret?: string;
+
+    /**
+     * @defaultValue 'client_credentials'
+     */
+    grant?: OAuth2Grant;
+
+    /**
+     * Refresh token for the `refresh_token` grant. Replaced whenever the server rotates it.
+     */
+    refreshToken?: string;
+
+    /**
+     * Requested scope, space-separated or as an array.
+     */
+    scope?: string | string[];
+
+    /**
+     * @defaultValue 'basic'
+     */
+    clientAuth?: OAuth2ClientAuth;
+
+    /**
+     * Additional body parameters, e.g. `audience` or `resource`.
+     */
+    params?: Record<string, string>;
+
+    /**
+     * Milliseconds before `expires_in` at which a cached token is considered expired.
+     *
+     * @defaultValue 30000
+     */
+    expiryMargin?: number;
+
+    /**
+     * Options for the token requests, e.g. `timeout`, `retry` or `fetch`.
+     */
+    fetchInit?: Omit<FetchInit, 'abortable' | 'responseType' | 'method' | 'body' | 'json' | 'schema' | 'sse' | 'auth'>;
+
+    /**
+     * Called with every newly issued token, e.g. to persist a rotated refresh token.
+     */
+    onToken?: (token: OAuth2Token) => void;
+}
+
+/**
+ * Obtains and caches OAuth2 access tokens, created by `createOAuth2TokenManager()`.
+ *
+ * It is a `FetchAuth`, so it can be used as the `auth` option of `fetchT` and `createFetchT`.
+ *
+ * @since 1.10.0
+ */
+export interface OAuth2TokenManager extends FetchAuth {
+    /**
+     * Returns the cached access token, requesting a new one if there is none or it is about to expire.
+     * Concurrent calls share a single token request.
+     */
+    getAccessToken(): AsyncIOResult<string>;
+
+    /**
+     * Drops the cached access token, so the next request obtains a new one.
+     * The refresh token is kept.
+     */
+    invalidate(): void;
+}
+
+/**
+ * Creates an OAuth2 token manager fetching tokens through `fetchT` and caching them until shortly before they expire.
+ *
+ * Used as the `auth` option, it attaches the access token to every request. When a request is rejected
+ * with `401`, the cached token is dropped, a new one is requested and the request is replayed once
+ * (see `createBearerAuth`).
+ *
+ * Error responses of the token endpoint carrying an `error` field are returned as `OAuth2Error`.
+ *
+ * @param options - Token manager options.
+ * @returns An `OAuth2TokenManager`.
+ * @throws {TypeError} If `tokenUrl` is invalid or `clientId` is not a string.
+ * @throws {TypeError} If `grant` or `clientAuth` is invalid, or the `refresh_token` grant has no `refreshToken`.
+ * @throws {Error} If `expiryMargin` is negative.
+ * @throws {TypeError} If `onToken` is provided but not a function.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createFetchT, createOAuth2TokenManager } from '@happy-ts/fetch-t';
+ *
+ * const api = createFetchT({
+ *     baseURL: 'https://api.example.com/',
+ *     auth: createOAuth2TokenManager({
+ *         tokenUrl: 'https://auth.example.com/oauth/token',
+ *         clientId: 'billing-service',
+ *         clientSecret: process.env.CLIENT_SECRET,
+ *         scope: ['invoices:read', 'invoices:write'],
+ *     }),
+ * });
+ *
+ * const result = await api('invoices', { responseType: 'json' });
+ * ```
+ */
+export function createOAuth2TokenManager(options: OAuth2TokenManagerOptions): OAuth2TokenManager {
+    const {
+        tokenUrl,
+        clientId,
+        clientSecret,
+        grant = 'client_credentials',
+        scope,
+        clientAuth = 'basic',
+        params,
+        expiryMargin = 30_000,
+        fetchInit,
+        onToken,
+    } = options;
+
+    const url = validateUrl(tokenUrl);
+
+    if (typeof clientId !== 'string') {
+        throw new TypeError(`clientId must be a string but received ${ typeof clientId }`);
+    }
+    if (grant !== 'client_credentials' && grant !== 'refresh_token') {
+        throw new TypeError(`grant must be one of client_credentials, refresh_token but received ${ grant }`);
+    }
+    if (grant === 'refresh_token' && typeof options.refreshToken !== 'string') {
+        throw new TypeError('refreshToken is required for the refresh_token grant');
+    }
+    if (clientAuth !== 'basic' && clientAuth !== 'body') {
+        throw new TypeError(`clientAuth must be one of basic, body but received ${ clientAuth }`);
+    }
+    if (typeof expiryMargin !== 'number' || !(expiryMargin >= 0)) {
+        throw new Error(`expiryMargin must be a non-negative number but received ${ expiryMargin }`);
+    }
+    if (onToken != null && typeof onToken !== 'function') {
+        throw new TypeError(`onToken callback must be a function but received ${ typeof onToken }`);
+    }
+
+    let refreshToken = options.refreshToken;
+    let accessToken: string | undefined;
+    let expiresAt = Infinity;
+    let pending: AsyncIOResult<string> | undefined;
+
+    const requestToken = async (): AsyncIOResult<string> => {
+        const body = new URLSearchParams(params);
+        body.set('grant_type', grant);
+        if (grant === 'refresh_token') {
+            body.set('refresh_token', refreshToken as string);
+        }
+        if (scope != null) {
+            body.set('scope', Array.isArray(scope) ? scope.join(' ') : scope);
+        }
+
+        const headers = new Headers(fetchInit?.headers);
+        headers.set('accept', 'application/json');
+
+        if (clientAuth === 'basic' && clientSecret != null) {
+            headers.set('authorization', `Basic ${ btoa(`${ formEncode(clientId) }:${ formEncode(clientSecret) }`) }`);
+        } else {
+            body.set('client_id', clientId);
+            if (clientSecret != null) {
+                body.set('client_secret', clientSecret);
+            }
+        }
+
+        const result = await fetchT(url, {
+            ...fetchInit,
+            middleware: [...fetchInit?.middleware ?? [], parseOAuth2Error],
+            method: 'POST',
+            headers,
+            body,
+            responseType: 'json',
+            schema: parseTokenResponse,
+        });
+
+        return result.map(token => {
+            accessToken = token.accessToken;
+            expiresAt = token.expiresIn == null
+                ? Infinity
+                : Date.now() + token.expiresIn * 1000 - expiryMargin;
+            refreshToken = token.refreshToken ?? refreshToken;
+
+            try {
+                onToken?.(token);
+            } catch {
+                // Silently ignore user callback errors
+            }
+
+            return token.accessToken;
+        });
+    };
+
+    const getAccessToken = (): AsyncIOResult<string> => {
+        if (accessToken != null && Date.now() < expiresAt) {
+            return Promise.resolve(Ok(accessToken));
+        }
+
+        pending ??= requestToken().finally(() => {
+            pending = undefined;
+        });
+
+        return pending;
+    };
+
+    const invalidate = (): void => {
+        accessToken = undefined;
+    };
+
+    const unwrapToken = async (): Promise<string> => {
+        const result = await getAccessToken();
+        if (result.isErr()) {
+            throw result.unwrapErr();
+        }
+        return result.unwrap();
+    };
+
+    const bearer = createBearerAuth({
+        getToken: unwrapToken,
+        refreshToken: () => {
+            invalidate();
+            return unwrapToken();
+        },
+    });
+
+    return Object.freeze({
+        getAccessToken,
+        invalidate,
+        execute: bearer.execute,
+    });
+}
+
+/**
+ * Turns token endpoint error responses with an `error` field into `OAuth2Error`.
+ */
+const parseOAuth2Error: FetchMiddleware = async (request, next) => {
+    const response = await next(request);
+    if (response.ok) {
+        return response;
+    }
+
+    let data: unknown;
+    try {
+        data = await response.clone().json();
+    } catch {
+        // Not a JSON error body, returned as a plain FetchError
+        return response;
+    }
+
+    if (!isRecord(data) || typeof data['error'] !== 'string') {
+        return response;
+    }
+
+    response.body?.cancel().catch(() => {
+        // Silently ignore stream cancel errors
+    });
+
+    throw new OAuth2Error(
+        data['error'],
+        response.status,
+        response.headers,
+        typeof data['error_description'] === 'string' ? data['error_description'] : undefined,
+        typeof data['error_uri'] === 'string' ? data['error_uri'] : undefined,
+    );
+};
+
+/**
+ * Validates a successful token endpoint response (RFC 6749, section 5.1).
+ */
+function parseTokenResponse(data: unknown): IOResult<OAuth2Token> {
+    if (!isRecord(data) || typeof data['access_token'] !== 'string') {
+        return Err(new Error('Token response must contain an access_token string'));
+    }
+
+    const expiresIn = Number(data['expires_in']);
+
+    return Ok({
+        accessToken: data['access_token'],
+        tokenType: typeof data['token_type'] === 'string' ? data['token_type'] : 'Bearer',
+        expiresIn: data['expires_in'] == null || Number.isNaN(expiresIn) ? undefined : expiresIn,
+        refreshToken: typeof data['refresh_token'] === 'string' ? data['refresh_token'] : undefined,
+        scope: typeof data['scope'] === 'string' ? data['scope'] : undefined,
+    });
+}
+
+/**
+ * Encodes a client credential for HTTP Basic authentication (RFC 6749, section 2.3.1).
+ */
+function formEncode(value: string): string {
+    return new URLSearchParams({ value }).toString().slice('value='.length);
+}
+
+/**
+ * Checks whether a parsed JSON value is an object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,82 @@
+import type { FetchQuery, FetchQueryArrayFormat, FetchQueryValue } from './defines.ts';
+
+/**
+ * Serializes `query` with the given array format and merges it into a copy of `url`.
+ *
+ * Search params already present on `url` are preserved, except those whose names are
+ * produced by the serialized query, which are replaced.
+ */
+export function applyQuery(
+    url: URL,
+    query: FetchQuery,
+    arrayFormat: FetchQueryArrayFormat,
+    serializer?: (query: FetchQuery) => string,
+): URL {
+    const serialized = new URLSearchParams(serializer
+        ? serializer(query)
+        : serializeQuery(query, arrayFormat));
+
+    // Never mutate the URL object passed by the caller
+    const merged = new URL(url);
+
+    for (const name of new Set(serialized.keys())) {
+        merged.searchParams.delete(name);
+    }
+    for (const [name, value] of serialized) {
+        merged.searchParams.append(name, value);
+    }
+
+    return merged;
+}
+
+/**
+ * Converts a query object to `URLSearchParams`, skipping `undefined` and `null` values.
+ */
+function serializeQuery(query: FetchQuery, arrayFormat: FetchQueryArrayFormat): URLSearchParams {
+    const params = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(query)) {
+        if (!Array.isArray(value)) {
+            if (value != null) {
+                params.append(key, stringifyValue(value as FetchQueryValue));
+            }
+            continue;
+        }
+
+        const items = (value as FetchQueryValue[])
+            .filter(item => item != null)
+            .map(stringifyValue);
+
+        switch (arrayFormat) {
+            case 'brackets': {
+                items.forEach(item => params.append(`${ key }[]`, item));
+                break;
+            }
+            case 'comma': {
+                if (items.length > 0) {
+                    params.append(key, items.join(','));
+                }
+                break;
+            }
+            case 'index': {
+                items.forEach((item, index) => params.append(`${ key }[${ index }]`, item));
+                break;
+            }
+            default: {
+                items.forEach(item => params.append(key, item));
+                break;
+            }
+        }
+    }
+
+    return params;
+}
+
+/**
+ * Converts a single query value to a string. Dates use ISO 8601 format.
+ */
+function stringifyValue(value: FetchQueryValue): string {
+    return value instanceof Date
+        ? value.toISOString()
+        : String(value);
+}
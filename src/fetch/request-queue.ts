@@ -0,0 +1,153 @@
+import type { FetchRequestQueue } from './defines.ts';
+
+/**
+ * Options for `createRequestQueue`.
+ *
+ * @since 1.10.0
+ */
+export interface RequestQueueOptions {
+    /**
+     * Maximum number of requests in flight at the same time.
+     *
+     * @defaultValue 6
+     */
+    concurrency?: number;
+
+    /**
+     * Maximum number of requests in flight at the same time for each origin.
+     * Unlimited (only bound by `concurrency`) when not set.
+     */
+    perOrigin?: number;
+}
+
+/**
+ * A request waiting for a slot.
+ */
+interface Waiter {
+    origin: string;
+    start: () => void;
+}
+
+/**
+ * Creates a queue capping the number of concurrent requests.
+ *
+ * Requests beyond the limits wait in first-in, first-out order, except that a request
+ * whose origin is at its `perOrigin` limit does not hold up requests to other origins.
+ * Use it with the `queue` option, on a client to limit that client or shared between
+ * calls and clients as a standalone scheduler.
+ *
+ * @param options - Queue options.
+ * @returns A `FetchRequestQueue`.
+ * @throws {Error} If `concurrency` or `perOrigin` is not a positive integer.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { createRequestQueue, fetchT } from '@happy-ts/fetch-t';
+ *
+ * const queue = createRequestQueue({ concurrency: 10, perOrigin: 4 });
+ *
+ * // At most 4 requests to api.example.com are in flight, the rest wait
+ * const results = await Promise.all(ids.map((id) => fetchT(`https://api.example.com/items/${ id }`, {
+ *     queue,
+ *     responseType: 'json',
+ * })));
+ * ```
+ */
+export function createRequestQueue(options?: RequestQueueOptions): FetchRequestQueue {
+    const { concurrency = 6, perOrigin } = options ?? {};
+
+    if (!Number.isInteger(concurrency) || concurrency <= 0) {
+        throw new Error(`concurrency must be a positive integer but received ${ concurrency }`);
+    }
+    if (perOrigin != null && (!Number.isInteger(perOrigin) || perOrigin <= 0)) {
+        throw new Error(`perOrigin must be a positive integer but received ${ perOrigin }`);
+    }
+
+    let active = 0;
+    const activeByOrigin = new Map<string, number>();
+    const waiters: Waiter[] = [];
+
+    const canStart = (origin: string): boolean => {
+        return active < concurrency && (perOrigin == null || (activeByOrigin.get(origin) ?? 0) < perOrigin);
+    };
+
+    /**
+     * Takes a slot and returns the function releasing it, which is safe to call more than once.
+     */
+    const take = (origin: string): () => void => {
+        active++;
+        activeByOrigin.set(origin, (activeByOrigin.get(origin) ?? 0) + 1);
+
+        let released = false;
+
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+
+            active--;
+            const count = activeByOrigin.get(origin) as number - 1;
+            if (count === 0) {
+                activeByOrigin.delete(origin);
+            } else {
+                activeByOrigin.set(origin, count);
+            }
+
+            drain();
+        };
+    };
+
+    /**
+     * Starts waiting requests in order while slots are available.
+     */
+    const drain = (): void => {
+        for (let i = 0; i < waiters.length && active < concurrency;) {
+            const waiter = waiters[i];
+
+            if (canStart(waiter.origin)) {
+                waiters.splice(i, 1);
+                waiter.start();
+            } else {
+                i++;
+            }
+        }
+    };
+
+    return Object.freeze({
+        get active(): number {
+            return active;
+        },
+
+        get pending(): number {
+            return waiters.length;
+        },
+
+        acquire(url: string | URL, signal?: AbortSignal): Promise<() => void> {
+            const { origin } = new URL(url);
+
+            if (signal?.aborted) {
+                return Promise.reject(signal.reason);
+            }
+
+            return new Promise((resolve, reject) => {
+                const onAbort = (): void => {
+                    waiters.splice(waiters.indexOf(waiter), 1);
+                    reject(signal?.reason);
+                };
+
+                const waiter: Waiter = {
+                    origin,
+                    start: () => {
+                        signal?.removeEventListener('abort', onAbort);
+                        resolve(take(origin));
+                    },
+                };
+
+                signal?.addEventListener('abort', onAbort, { once: true });
+                waiters.push(waiter);
+                drain();
+            });
+        },
+    });
+}
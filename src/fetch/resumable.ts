@@ -0,0 +1,190 @@
+import { FetchError, type FetchResumeFallbackReason } from './defines.ts';
+
+/**
+ * Hooks used by a resumable response to continue an interrupted body.
+ */
+export interface ResumeContext {
+    /**
+     * Sends the request again with extra headers.
+     */
+    request: (headers: Record<string, string>) => Promise<Response>;
+
+    /**
+     * Called before each resume attempt with the error that interrupted the body.
+     * Counts the attempt against the retry budget of the request, waits for the retry delay
+     * and resolves `false` to give up.
+     */
+    beforeResume: (error: Error) => Promise<boolean>;
+
+    /**
+     * Called when the body cannot be resumed and the download must restart from the beginning.
+     */
+    onFallback?: (reason: FetchResumeFallbackReason) => void;
+}
+
+/**
+ * Error of a resumable body that must restart from the beginning on a retry already counted by
+ * `beforeResume`, so the retry loop sends it again without another delay or `onRetry` call.
+ *
+ * Carries the interruption error as `cause`, and the full `200` response to use for the restart
+ * when the server answered the range request with one.
+ */
+export class ResumeRestartError extends Error {
+    override name = 'ResumeRestartError';
+
+    constructor(readonly error: Error, readonly response?: Response) {
+        super(error.message, { cause: error });
+    }
+}
+
+/**
+ * Wraps a `200` response so that an interrupted body continues with `Range` and `If-Range` requests.
+ *
+ * The body is resumed from the number of bytes already read, as long as the response has a strong
+ * `ETag` or a `Last-Modified` validator and no `Content-Encoding`. A resumed response must be a `206`
+ * whose `Content-Range` starts at that offset. Otherwise `onFallback` is called and the body errors
+ * so the retry loop can restart the download from the beginning: with the interruption error when
+ * no range request was sent, or else with a `ResumeRestartError`.
+ */
+export function createResumableResponse(response: Response, context: ResumeContext): Response {
+    if (response.status !== 200 || response.body == null) {
+        return response;
+    }
+
+    const { request, beforeResume, onFallback } = context;
+    const validator = getValidator(response.headers);
+    // Offsets count decoded bytes, which do not match the ranges of an encoded body
+    const encoded = (response.headers.get('Content-Encoding') ?? 'identity') !== 'identity';
+
+    let reader = response.body.getReader();
+    let received = 0;
+
+    const fallback = (reason: FetchResumeFallbackReason): void => {
+        try {
+            onFallback?.(reason);
+        } catch {
+            // Silently ignore user callback errors
+        }
+    };
+
+    /**
+     * Requests the rest of the body, resolving its reader or rejecting with the error to surface.
+     */
+    const resume = async (error: Error): Promise<ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>> => {
+        if (validator == null || encoded) {
+            // Restarting is a plain retry of the request
+            fallback('no-validator');
+            throw error;
+        }
+
+        while (true) {
+            if (!await beforeResume(error)) {
+                throw error;
+            }
+
+            let next: Response;
+            try {
+                next = await request({ 'Range': `bytes=${ received }-`, 'If-Range': validator });
+            } catch (err) {
+                error = err as Error;
+                continue;
+            }
+
+            const reason = getFallbackReason(next, received, validator);
+
+            if (reason == null && next.body != null) {
+                return next.body.getReader();
+            }
+
+            if (reason != null && next.status === 200) {
+                // Already the full body of the restart, to be read from the beginning
+                fallback(reason);
+                throw new ResumeRestartError(error, next);
+            }
+
+            next.body?.cancel().catch(() => {
+                // Silently ignore stream cancel errors
+            });
+
+            if (reason == null) {
+                // Any other status is a failed attempt, retried according to `retry.when`
+                error = new FetchError(next.statusText, next.status, next.headers);
+                continue;
+            }
+
+            fallback(reason);
+            throw new ResumeRestartError(error);
+        }
+    };
+
+    const body = new ReadableStream<Uint8Array<ArrayBuffer>>({
+        async pull(controller) {
+            while (true) {
+                try {
+                    const { done, value } = await reader.read();
+
+                    if (done) {
+                        controller.close();
+                    } else {
+                        received += value.byteLength;
+                        controller.enqueue(value);
+                    }
+                    return;
+                } catch (err) {
+                    reader = await resume(err as Error);
+                }
+            }
+        },
+
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+
+    const resumable = new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    });
+    Object.defineProperty(resumable, 'url', { value: response.url });
+
+    return resumable;
+}
+
+/**
+ * Returns the validator sent as `If-Range`: a strong `ETag`, or else `Last-Modified`.
+ */
+export function getValidator(headers: Headers): string | undefined {
+    const etag = headers.get('ETag');
+    if (etag != null && !etag.startsWith('W/')) {
+        return etag;
+    }
+
+    return headers.get('Last-Modified') ?? undefined;
+}
+
+/**
+ * Checks a response to a range request, returning why it cannot continue the body.
+ * Returns `undefined` for a valid `206` and for statuses that are plain failed attempts.
+ */
+function getFallbackReason(response: Response, offset: number, validator: string): FetchResumeFallbackReason | undefined {
+    if (response.status === 200) {
+        // `If-Range` did not match, or the server does not support ranges
+        const current = getValidator(response.headers);
+        return current != null && current !== validator ? 'validator-changed' : 'range-ignored';
+    }
+
+    if (response.status !== 206) {
+        return;
+    }
+
+    const current = getValidator(response.headers);
+    if (current != null && current !== validator) {
+        return 'validator-changed';
+    }
+
+    const match = /^bytes (\d+)-\d+\/(?:\d+|\*)$/.exec(response.headers.get('Content-Range')?.trim() ?? '');
+    if (match == null || Number(match[1]) !== offset) {
+        return 'invalid-content-range';
+    }
+}
@@ -0,0 +1,420 @@
+import { Err, Ok, type AsyncIOResult, type IOResult } from 'happy-rusty';
+import { FetchError, type FetchInit, type FetchMiddleware, type FetchProgress, type FetchResult, type FetchTask } from './defines.ts';
+import { fetchT } from './fetch.ts';
+import { getValidator } from './resumable.ts';
+
+/**
+ * Options for `fetchSegmented`.
+ *
+ * Accepts the `FetchInit` options shared by every request (headers, `retry`, `timeout`,
+ * `middleware`, ...). `retry` and `timeout` apply to each segment separately.
+ *
+ * @since 1.10.0
+ */
+export interface SegmentedFetchOptions extends Omit<FetchInit, 'abortable' | 'responseType' | 'method' | 'body' | 'json' | 'schema' | 'sse' | 'onChunk' | 'resumable'> {
+    /**
+     * When `true`, returns a `FetchTask` whose `abort()` cancels every segment.
+     *
+     * @defaultValue false
+     */
+    abortable?: boolean;
+
+    /**
+     * How the segments are reassembled.
+     *
+     * - `'blob'` - A `Blob` with the `Content-Type` of the file
+     * - `'arraybuffer'` - An `ArrayBuffer`
+     * - `'stream'` - A `ReadableStream` emitting the segments in order
+     *
+     * @defaultValue 'blob'
+     */
+    responseType?: 'blob' | 'arraybuffer' | 'stream';
+
+    /**
+     * Maximum number of segments downloaded concurrently.
+     *
+     * @defaultValue 4
+     */
+    segments?: number;
+
+    /**
+     * Minimum size of a segment in bytes, so small files use fewer segments.
+     *
+     * @defaultValue 1048576 (1 MiB)
+     */
+    minSegmentSize?: number;
+}
+
+/**
+ * Downloads a file as `segments` concurrent `Range` requests, reassembled as a `Blob`.
+ *
+ * @param url - The file to download.
+ * @param init - Options, must include `abortable: true`.
+ * @returns A `FetchTask` with the reassembled `Blob`.
+ */
+export function fetchSegmented(url: string | URL, init: SegmentedFetchOptions & {
+    abortable: true;
+    responseType?: 'blob';
+}): FetchTask<Blob>;
+
+/**
+ * Downloads a file as `segments` concurrent `Range` requests, reassembled as an `ArrayBuffer`.
+ *
+ * @param url - The file to download.
+ * @param init - Options, must include `abortable: true` and `responseType: 'arraybuffer'`.
+ * @returns A `FetchTask` with the reassembled `ArrayBuffer`.
+ */
+export function fetchSegmented(url: string | URL, init: SegmentedFetchOptions & {
+    abortable: true;
+    responseType: 'arraybuffer';
+}): FetchTask<ArrayBuffer>;
+
+/**
+ * Downloads a file as `segments` concurrent `Range` requests, emitted in order as a stream.
+ *
+ * @param url - The file to download.
+ * @param init - Options, must include `abortable: true` and `responseType: 'stream'`.
+ * @returns A `FetchTask` with a `ReadableStream` of the file.
+ */
+export function fetchSegmented(url: string | URL, init: SegmentedFetchOptions & {
+    abortable: true;
+    responseType: 'stream';
+}): FetchTask<ReadableStream<Uint8Array<ArrayBuffer>>>;
+
+/**
+ * Downloads a file as `segments` concurrent `Range` requests, reassembled as an `ArrayBuffer`.
+ *
+ * @param url - The file to download.
+ * @param init - Options, must include `responseType: 'arraybuffer'` and `abortable` must be `false` or omitted.
+ * @returns A `FetchResult` with the reassembled `ArrayBuffer`.
+ */
+export function fetchSegmented(url: string | URL, init: SegmentedFetchOptions & {
+    abortable?: false;
+    responseType: 'arraybuffer';
+}): FetchResult<ArrayBuffer>;
+
+/**
+ * Downloads a file as `segments` concurrent `Range` requests, emitted in order as a stream.
+ *
+ * @param url - The file to download.
+ * @param init - Options, must include `responseType: 'stream'` and `abortable` must be `false` or omitted.
+ * @returns A `FetchResult` with a `ReadableStream` of the file.
+ */
+export function fetchSegmented(url: string | URL, init: SegmentedFetchOptions & {
+    abortable?: false;
+    responseType: 'stream';
+}): FetchResult<ReadableStream<Uint8Array<ArrayBuffer>>>;
+
+/**
+ * Downloads a file as `segments` concurrent `Range` requests, reassembled as a `Blob`.
+ *
+ * @param url - The file to download.
+ * @param init - Optional options, `abortable` must be `false` or omitted.
+ * @returns A `FetchResult` with the reassembled `Blob`.
+ */
+export function fetchSegmented(url: string | URL, init?: SegmentedFetchOptions & {
+    abortable?: false;
+    responseType?: 'blob';
+}): FetchResult<Blob>;
+
+/**
+ * Fallback overload for when the options are passed as a variable.
+ *
+ * @param url - The file to download.
+ * @param init - Optional options.
+ * @returns Either a `FetchTask` or `FetchResult` depending on the runtime value of `abortable`.
+ */
+export function fetchSegmented(url: string | URL, init?: SegmentedFetchOptions): FetchTask<SegmentedData> | FetchResult<SegmentedData>;
+
+/**
+ * Downloads a large file faster by splitting it into concurrent `Range` requests.
+ *
+ * The file size is probed with a `HEAD` request. If the server reports `Accept-Ranges: bytes`,
+ * a `Content-Length` and no `Content-Encoding`, the file is split into up to `segments` ranges of at least
+ * `minSegmentSize` bytes, each fetched with `fetchT` (so `retry` applies per segment) and
+ * validated as a `206` response for the exact range and length. `If-Range` with the strong `ETag` or
+ * `Last-Modified` of the probe makes sure every segment comes from the same version of the file.
+ * Otherwise the file is downloaded with a single regular request, as it is when a segment
+ * response is not the requested range after all, e.g. because the server ignores `Range`.
+ *
+ * `onProgress` reports the aggregate progress of all segments. When a segment fails after its
+ * retries, or the task is aborted, every other segment is cancelled.
+ *
+ * **Note**: Segments are buffered in memory until reassembled, or for `'stream'` until read.
+ *
+ * @param url - The file to download.
+ * @param init - Options shared by every request.
+ * @returns A `FetchTask` if `abortable: true`, otherwise a `FetchResult`.
+ * @throws {TypeError} If `responseType` is not `'blob'`, `'arraybuffer'` or `'stream'`.
+ * @throws {Error} If `segments` or `minSegmentSize` is not a positive integer.
+ * @throws {TypeError | Error} If other options are invalid, see `fetchT`.
+ * @since 1.10.0
+ * @example
+ * ```typescript
+ * import { fetchSegmented } from '@happy-ts/fetch-t';
+ *
+ * const task = fetchSegmented('https://cdn.example.com/video.mp4', {
+ *     abortable: true,
+ *     segments: 6,
+ *     retry: 3,
+ *     onProgress: (result) => result.inspect(({ completedByteLength, totalByteLength }) => {
+ *         console.log(`${ (completedByteLength / totalByteLength * 100).toFixed(1) }%`);
+ *     }),
+ * });
+ *
+ * const blob = (await task.result).unwrap();
+ * ```
+ */
+export function fetchSegmented(url: string | URL, init?: SegmentedFetchOptions): FetchTask<SegmentedData> | FetchResult<SegmentedData> {
+    const {
+        abortable = false,
+        responseType = 'blob',
+        segments = 4,
+        minSegmentSize = 1024 * 1024,
+        onProgress,
+        signal: userSignal,
+        ...rest
+    } = init ?? {};
+
+    const validTypes = ['blob', 'arraybuffer', 'stream'];
+    if (!validTypes.includes(responseType)) {
+        throw new TypeError(`responseType must be one of ${ validTypes.join(', ') } but received ${ responseType }`);
+    }
+    for (const [name, value] of Object.entries({ segments, minSegmentSize })) {
+        if (!Number.isInteger(value) || value <= 0) {
+            throw new Error(`${ name } must be a positive integer but received ${ value }`);
+        }
+    }
+    if (onProgress != null && typeof onProgress !== 'function') {
+        throw new TypeError(`onProgress callback must be a function but received ${ typeof onProgress }`);
+    }
+
+    const userController = new AbortController();
+    const signal = userSignal ? AbortSignal.any([userSignal, userController.signal]) : userController.signal;
+
+    // Validate the shared options synchronously, like fetchT does
+    const probe = fetchT(url, { ...rest, method: 'HEAD', signal });
+
+    const fetchWhole = async (): AsyncIOResult<SegmentedData> => {
+        return await fetchT(url, { ...rest, signal, responseType, onProgress }) as IOResult<SegmentedData>;
+    };
+
+    const download = async (): AsyncIOResult<SegmentedData> => {
+        const probeResult = await probe;
+        if (probeResult.isErr()) {
+            return probeResult.asErr();
+        }
+
+        const { headers } = probeResult.unwrap();
+        const size = Number(headers.get('Content-Length') ?? Number.NaN);
+        const rangeable = headers.get('Accept-Ranges')?.toLowerCase() === 'bytes';
+        // Ranges count encoded bytes, which do not match the decoded segments
+        const encoded = (headers.get('Content-Encoding') ?? 'identity') !== 'identity';
+        const count = rangeable && !encoded && Number.isSafeInteger(size) && size > 0
+            ? Math.min(segments, Math.ceil(size / minSegmentSize))
+            : 1;
+
+        if (count === 1) {
+            // Not worth or not possible to split
+            return fetchWhole();
+        }
+
+        // Cancels the other segments when one fails
+        const segmentsController = new AbortController();
+        const segmentSignal = AbortSignal.any([signal, segmentsController.signal]);
+        // Weak ETags cannot be used with If-Range (RFC 9110, section 13.1.5)
+        const validator = getValidator(headers);
+        const completed = new Array<number>(count).fill(0);
+        // The error of the first failed segment, rather than the aborts it caused
+        let failure: Error | undefined;
+
+        const reportProgress = (index: number, progress: FetchProgress): void => {
+            completed[index] = progress.completedByteLength;
+            try {
+                onProgress?.(Ok({
+                    totalByteLength: size,
+                    completedByteLength: completed.reduce((sum, value) => sum + value, 0),
+                }));
+            } catch {
+                // Silently ignore user callback errors
+            }
+        };
+
+        const fail = (error: Error): IOResult<never> => {
+            failure ??= error;
+            segmentsController.abort();
+            return Err(failure);
+        };
+
+        const segmentSize = Math.ceil(size / count);
+        const pending = Array.from({ length: count }, async (_, index): AsyncIOResult<ArrayBuffer> => {
+            const start = index * segmentSize;
+            const end = Math.min(size, start + segmentSize) - 1;
+
+            const segmentHeaders = new Headers(rest.headers);
+            segmentHeaders.set('Range', `bytes=${ start }-${ end }`);
+            if (validator != null) {
+                segmentHeaders.set('If-Range', validator);
+            }
+
+            const result = await fetchT(url, {
+                ...rest,
+                headers: segmentHeaders,
+                signal: segmentSignal,
+                responseType: 'arraybuffer',
+                middleware: [...rest.middleware ?? [], createPartialValidator(start, end, size)],
+                onProgress: onProgress && (progress => progress.inspect(value => reportProgress(index, value))),
+            });
+
+            if (result.isErr()) {
+                return fail(result.unwrapErr());
+            }
+
+            const { byteLength } = result.unwrap();
+            if (byteLength !== end - start + 1) {
+                return fail(new Error(`Expected ${ end - start + 1 } bytes for the range ${ start }-${ end } but received ${ byteLength }`));
+            }
+
+            return result;
+        });
+
+        if (responseType === 'stream') {
+            return Ok(createOrderedStream(pending, segmentsController, fetchWhole as () => AsyncIOResult<ReadableStream<Uint8Array<ArrayBuffer>>>));
+        }
+
+        const parts: ArrayBuffer[] = [];
+        for (const result of await Promise.all(pending)) {
+            if (result.isErr()) {
+                // The server ignored the range after all, download the file at once instead
+                return result.unwrapErr() instanceof RangeIgnoredError
+                    ? fetchWhole()
+                    : result.asErr();
+            }
+            parts.push(result.unwrap());
+        }
+
+        if (responseType === 'blob') {
+            return Ok(new Blob(parts, { type: headers.get('Content-Type') ?? '' }));
+        }
+
+        const bytes = new Uint8Array(size);
+        let offset = 0;
+        for (const part of parts) {
+            bytes.set(new Uint8Array(part), offset);
+            offset += part.byteLength;
+        }
+        return Ok(bytes.buffer);
+    };
+
+    const result = download();
+
+    if (abortable) {
+        return {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            abort(reason?: any): void {
+                userController.abort(reason);
+            },
+
+            get aborted(): boolean {
+                return userController.signal.aborted;
+            },
+
+            get result(): FetchResult<SegmentedData> {
+                return result;
+            },
+        };
+    }
+
+    return result;
+}
+
+/**
+ * Data returned by `fetchSegmented`.
+ */
+type SegmentedData = Blob | ArrayBuffer | ReadableStream<Uint8Array<ArrayBuffer>>;
+
+/**
+ * A segment response that is not a `206` for exactly the requested range.
+ *
+ * It is a `FetchError`, so that the segment is not retried by default.
+ */
+class RangeIgnoredError extends FetchError {
+    override name = 'RangeIgnoredError';
+}
+
+/**
+ * Creates a middleware rejecting segment responses that are not a `206` for exactly the requested range.
+ */
+function createPartialValidator(start: number, end: number, size: number): FetchMiddleware {
+    return async (request, next) => {
+        const response = await next(request);
+
+        if (response.ok && response.headers.get('Content-Range')?.trim() !== `bytes ${ start }-${ end }/${ size }`) {
+            response.body?.cancel().catch(() => {
+                // Silently ignore stream cancel errors
+            });
+            throw new RangeIgnoredError(`Expected a partial response for bytes ${ start }-${ end } but received status ${ response.status }`, response.status, response.headers);
+        }
+
+        return response;
+    };
+}
+
+/**
+ * Emits the segments in order as they complete, erroring with the first failed segment.
+ *
+ * When the first segment is not the requested range, the stream of `fallback` is emitted instead.
+ */
+function createOrderedStream(
+    pending: AsyncIOResult<ArrayBuffer>[],
+    controller: AbortController,
+    fallback: () => AsyncIOResult<ReadableStream<Uint8Array<ArrayBuffer>>>,
+): ReadableStream<Uint8Array<ArrayBuffer>> {
+    let index = 0;
+    let fallbackReader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>> | undefined;
+
+    return new ReadableStream({
+        async pull(stream) {
+            if (fallbackReader == null) {
+                const result = await pending[index];
+
+                if (result.isOk()) {
+                    stream.enqueue(new Uint8Array(result.unwrap()));
+                    index++;
+
+                    if (index === pending.length) {
+                        stream.close();
+                    }
+                    return;
+                }
+
+                const error = result.unwrapErr();
+                // Once a segment has been emitted, the file cannot be started over
+                if (index > 0 || !(error instanceof RangeIgnoredError)) {
+                    stream.error(error);
+                    return;
+                }
+
+                const fallbackResult = await fallback();
+                if (fallbackResult.isErr()) {
+                    stream.error(fallbackResult.unwrapErr());
+                    return;
+                }
+
+                fallbackReader = fallbackResult.unwrap().getReader();
+            }
+
+            const { done, value } = await fallbackReader.read();
+            if (done) {
+                stream.close();
+            } else {
+                stream.enqueue(value);
+            }
+        },
+
+        cancel(reason) {
+            controller.abort();
+            return fallbackReader?.cancel(reason);
+        },
+    });
+}
@@ -0,0 +1,203 @@
+import { FetchError, type FetchSSEMessage } from './defines.ts';
+
+/**
+ * How an event stream reconnects once the current response ends.
+ */
+export interface SSEConnection {
+    /**
+     * Sends a new request, with `Last-Event-ID` set when `lastEventId` is not empty.
+     * Reconnection is disabled when omitted.
+     */
+    reconnect?: (lastEventId: string) => Promise<Response>;
+
+    /**
+     * Initial reconnection delay in milliseconds, replaced by the server's `retry` field.
+     */
+    retry: number;
+
+    /**
+     * Signal of user aborts, which end the iteration and cancel pending reconnects.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Reads an event stream response as messages, reconnecting if enabled.
+ *
+ * The iteration ends when the stream ends without reconnection, when the server answers a
+ * reconnect with `204 No Content`, or when the user aborts. It throws when the stream fails
+ * without reconnection, or when a reconnect gets any other non-2xx response.
+ */
+export async function* readSSE(response: Response, connection: SSEConnection): AsyncGenerator<FetchSSEMessage, void, undefined> {
+    const { reconnect, signal } = connection;
+    const state = { lastEventId: '', retry: connection.retry };
+
+    let current: Response | undefined = response;
+
+    while (true) {
+        if (current != null) {
+            try {
+                yield* parseSSE(current.body, state, signal);
+            } catch (err) {
+                if (signal?.aborted) {
+                    return;
+                }
+                if (reconnect == null) {
+                    throw err;
+                }
+            }
+        }
+
+        if (reconnect == null || !await sleep(state.retry, signal)) {
+            return;
+        }
+
+        try {
+            current = await reconnect(state.lastEventId);
+        } catch {
+            if (signal?.aborted) {
+                return;
+            }
+            // Network error, try again after the reconnection delay
+            current = undefined;
+            continue;
+        }
+
+        if (current.status === 204) {
+            return;
+        }
+
+        if (!current.ok) {
+            current.body?.cancel().catch(() => {
+                // Silently ignore stream cancel errors
+            });
+            throw new FetchError(current.statusText, current.status, current.headers);
+        }
+    }
+}
+
+/**
+ * Parses an event stream following the WHATWG `text/event-stream` interpretation rules.
+ * `state` carries the last event ID and reconnection time across connections.
+ * Ends without error when `signal` aborts.
+ */
+async function* parseSSE(body: ReadableStream<Uint8Array> | null, state: { lastEventId: string; retry: number; }, signal?: AbortSignal): AsyncGenerator<FetchSSEMessage, void, undefined> {
+    if (body == null) {
+        return;
+    }
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+
+    // Stop reading on abort even if the body does not follow the request signal
+    const onAbort = (): void => {
+        reader.cancel(signal?.reason).catch(() => {
+            // Silently ignore stream cancel errors
+        });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let buffer = '';
+    let data = '';
+    let event = '';
+    let retry: number | undefined;
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+
+            if (done) {
+                // An incomplete message at the end of the stream is discarded
+                return;
+            }
+
+            buffer += decoder.decode(value, { stream: true });
+
+            // Lines end with CRLF, LF or CR; a trailing CR may be the first half of a CRLF
+            const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+            buffer = lines.pop() as string;
+
+            for (const line of lines) {
+                if (line === '') {
+                    // Dispatch the message, unless no data was received
+                    if (data !== '') {
+                        yield {
+                            event: event || 'message',
+                            data: data.slice(0, -1),
+                            id: state.lastEventId,
+                            retry,
+                        };
+                    }
+                    data = '';
+                    event = '';
+                    retry = undefined;
+                    continue;
+                }
+
+                if (line.startsWith(':')) {
+                    // Comment
+                    continue;
+                }
+
+                const colon = line.indexOf(':');
+                const field = colon === -1 ? line : line.slice(0, colon);
+                let value = colon === -1 ? '' : line.slice(colon + 1);
+                if (value.startsWith(' ')) {
+                    value = value.slice(1);
+                }
+
+                switch (field) {
+                    case 'event': {
+                        event = value;
+                        break;
+                    }
+                    case 'data': {
+                        data += `${ value }\n`;
+                        break;
+                    }
+                    case 'id': {
+                        if (!value.includes('\0')) {
+                            state.lastEventId = value;
+                        }
+                        break;
+                    }
+                    case 'retry': {
+                        if (/^\d+$/.test(value)) {
+                            retry = Number(value);
+                            state.retry = retry;
+                        }
+                        break;
+                    }
+                    // Other fields are ignored
+                }
+            }
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        reader.cancel().catch(() => {
+            // Silently ignore stream cancel errors
+        });
+    }
+}
+
+/**
+ * Waits for `ms` milliseconds, resolving `false` early if `signal` aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+        return Promise.resolve(false);
+    }
+
+    return new Promise(resolve => {
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
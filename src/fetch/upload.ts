@@ -0,0 +1,77 @@
+import { Err, Ok, type IOResult } from 'happy-rusty';
+import type { FetchProgress } from './defines.ts';
+
+/**
+ * Request options for sending a streaming body.
+ * `duplex` is required by the Fetch spec when `body` is a `ReadableStream`.
+ */
+type StreamingRequestInit = RequestInit & { duplex: 'half'; };
+
+/**
+ * Wraps the request body in a stream that reports upload progress.
+ *
+ * Must be called once per attempt: a new counting stream is created from the original
+ * body every time, so non-stream bodies can be sent again on retry.
+ * A `ReadableStream` body can only be read once and its size is unknown, so
+ * `onUploadProgress` receives an `Err` and the stream cannot be replayed on retry.
+ */
+export async function createUploadInit(init: RequestInit, onUploadProgress: (progressResult: IOResult<FetchProgress>) => void): Promise<StreamingRequestInit> {
+    const body = init.body as BodyInit;
+
+    let stream: ReadableStream<Uint8Array>;
+    let totalByteLength: number | undefined;
+    let contentType: string | null = null;
+
+    if (body instanceof ReadableStream) {
+        stream = body;
+        invokeProgress(onUploadProgress, Err(new Error('Unknown upload body size for ReadableStream')));
+    } else {
+        // `Response` serializes every other BodyInit type (string, Blob, BufferSource,
+        // FormData, URLSearchParams) and provides the Content-Type fetch would use
+        const serialized = new Response(body);
+        contentType = serialized.headers.get('content-type');
+
+        const blob = await serialized.blob();
+        totalByteLength = blob.size;
+        stream = blob.stream();
+    }
+
+    const headers = new Headers(init.headers);
+    if (contentType != null && !headers.has('content-type')) {
+        headers.set('content-type', contentType);
+    }
+
+    let completedByteLength = 0;
+
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller): void {
+            controller.enqueue(chunk);
+
+            if (totalByteLength != null) {
+                completedByteLength += chunk.byteLength;
+                invokeProgress(onUploadProgress, Ok({
+                    totalByteLength,
+                    completedByteLength,
+                }));
+            }
+        },
+    });
+
+    return {
+        ...init,
+        headers,
+        body: stream.pipeThrough(counter),
+        duplex: 'half',
+    };
+}
+
+/**
+ * Invokes the progress callback, ignoring errors thrown by user code.
+ */
+function invokeProgress(onUploadProgress: (progressResult: IOResult<FetchProgress>) => void, progressResult: IOResult<FetchProgress>): void {
+    try {
+        onUploadProgress(progressResult);
+    } catch {
+        // Silently ignore user callback errors
+    }
+}
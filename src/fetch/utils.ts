@@ -0,0 +1,61 @@
+/**
+ * Internal helpers shared by `fetchT`, `createFetchT` and the auth modules.
+ *
+ * This module is not re-exported from `mod.ts`.
+ */
+
+import { md5 } from './md5.ts';
+
+/**
+ * Validates and parses a URL string or URL object.
+ *
+ * Relative URLs are resolved against `base` when provided. Otherwise, in browser
+ * environments they are resolved against `location.href`, and in non-browser
+ * environments (Node/Deno/Bun) only absolute URLs are valid.
+ */
+export function validateUrl(url: string | URL, base?: string | URL): URL {
+    if (url instanceof URL) {
+        return url;
+    }
+
+    try {
+        // In browser, use location.href as base for relative URLs
+        // In Node/Deno/Bun, location is undefined, so relative URLs will fail
+        return new URL(url, base ?? (typeof location !== 'undefined' ? location.href : undefined));
+    } catch {
+        throw new TypeError(`Invalid URL: ${ url }`);
+    }
+}
+
+/**
+ * Computes the digest of some bytes, supporting `MD5` besides the WebCrypto algorithms.
+ */
+export async function digest(algorithm: string, data: BufferSource): Promise<ArrayBuffer> {
+    if (algorithm === 'MD5') {
+        return md5(ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data));
+    }
+
+    return crypto.subtle.digest(algorithm, data);
+}
+
+/**
+ * Computes the HMAC of a string with the given hash algorithm.
+ */
+export async function hmac(algorithm: string, key: BufferSource, data: string): Promise<ArrayBuffer> {
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: algorithm }, false, ['sign']);
+    return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+/**
+ * Encodes bytes as lower-case hex.
+ */
+export function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Encodes bytes as standard, padded base64.
+ */
+export function toBase64(buffer: ArrayBuffer): string {
+    return btoa(Array.from(new Uint8Array(buffer), byte => String.fromCharCode(byte)).join(''));
+}
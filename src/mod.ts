@@ -9,6 +9,7 @@
  * - **Timeout support** - Auto-abort long-running requests
  * - **Progress tracking** - Monitor download progress with callbacks
  * - **Result type error handling** - Uses `Result<T, E>` instead of throwing exceptions
+ * - **Reusable clients** - Share base URL, headers and options via `createFetchT()`
  *
  * @example
  * ```typescript
@@ -32,6 +33,16 @@
  *     });
  * ```
  */
+export * from './fetch/auth.ts';
+export * from './fetch/backoff.ts';
+export * from './fetch/cache-store.ts';
+export * from './fetch/circuit-breaker.ts';
+export * from './fetch/client.ts';
 export * from './fetch/constants.ts';
 export * from './fetch/defines.ts';
 export * from './fetch/fetch.ts';
+export * from './fetch/hmac.ts';
+export * from './fetch/oauth2.ts';
+export * from './fetch/request-queue.ts';
+export * from './fetch/segmented.ts';
+export * from './fetch/sigv4.ts';
@@ -0,0 +1,24 @@
+/**
+ * @packageDocumentation
+ * @module @happy-ts/fetch-t/testing
+ *
+ * Test utilities for code built on `fetchT`, without MSW or patching globals:
+ *
+ * - **Mock fetch** - Answer requests from routes with `createMockFetch()` and pass it as the `fetch` option
+ * - **Route matching** - Match by method, URL pattern, headers and body
+ * - **Canned responses** - Static or computed responses with delays, chunked streams and network errors
+ * - **Call recording** - Inspect every received request through `calls`
+ *
+ * @example
+ * ```typescript
+ * import { createFetchT } from '@happy-ts/fetch-t';
+ * import { createMockFetch } from '@happy-ts/fetch-t/testing';
+ *
+ * const mock = createMockFetch()
+ *     .get('/users/:id', ({ params }) => ({ json: { id: params.id } }));
+ *
+ * const api = createFetchT({ baseURL: 'https://api.example.com/', fetch: mock.fetch });
+ * const result = await api<{ id: string }>('users/42', { responseType: 'json' });
+ * ```
+ */
+export * from './fetch/mock-fetch.ts';
@@ -0,0 +1,381 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createBearerAuth, createDigestAuth, createFetchT, FetchError, fetchT, type BearerAuthOptions } from '../src/mod.ts';
+import { createMockFetch, type MockFetchCall } from '../src/testing.ts';
+
+const baseUrl = 'http://mock.test';
+
+/**
+ * Creates a token store whose refresh issues `token-1`, `token-2`, ... after `refreshDelay` ms.
+ */
+function createTokenStore(refreshDelay = 0) {
+    let accessToken: string | undefined = 'token-0';
+    let issued = 0;
+
+    const options = {
+        getToken: vi.fn(() => accessToken),
+        refreshToken: vi.fn(async () => {
+            await new Promise(resolve => setTimeout(resolve, refreshDelay));
+            issued += 1;
+            accessToken = `token-${ issued }`;
+            return accessToken;
+        }),
+    } satisfies BearerAuthOptions;
+
+    return options;
+}
+
+/**
+ * Answers with the request body when the token is `valid`, otherwise with 401.
+ */
+function createProtectedApi(isValid: (authorization: string | null) => boolean, delay = 0) {
+    return createMockFetch().route('/*', async (call: MockFetchCall) => {
+        return isValid(call.request.headers.get('authorization'))
+            ? { body: `${ call.method } ${ call.body }`, delay }
+            : { status: 401, statusText: 'Unauthorized', headers: { 'www-authenticate': 'Bearer' }, delay };
+    });
+}
+
+describe('createBearerAuth', () => {
+    it('should attach the token from the provider', async () => {
+        const store = createTokenStore();
+        const mock = createProtectedApi(authorization => authorization === 'Bearer token-0');
+
+        const res = await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth: createBearerAuth(store), responseType: 'text' });
+
+        expect(res.unwrap()).toBe('GET ');
+        expect(store.refreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should use a custom scheme and skip missing tokens', async () => {
+        const mock = createMockFetch().route('/*', call => ({ body: call.request.headers.get('authorization') ?? 'none' }));
+
+        const custom = createBearerAuth({ getToken: () => 'abc', refreshToken: () => 'def', scheme: 'Token' });
+        expect((await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth: custom, responseType: 'text' })).unwrap()).toBe('Token abc');
+
+        const anonymous = createBearerAuth({ getToken: () => undefined, refreshToken: () => 'def' });
+        expect((await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth: anonymous, responseType: 'text' })).unwrap()).toBe('none');
+    });
+
+    it('should refresh on 401 and replay the request with its body', async () => {
+        const store = createTokenStore();
+        const mock = createProtectedApi(authorization => authorization === 'Bearer token-1');
+
+        const res = await fetchT(`${ baseUrl }/items`, {
+            fetch: mock.fetch,
+            auth: createBearerAuth(store),
+            method: 'POST',
+            json: { name: 'item' },
+            responseType: 'text',
+        });
+
+        expect(res.unwrap()).toBe('POST {"name":"item"}');
+        expect(store.refreshToken).toHaveBeenCalledTimes(1);
+        expect(mock.calls.map(call => call.request.headers.get('authorization'))).toEqual(['Bearer token-0', 'Bearer token-1']);
+        expect(mock.calls[1].request.headers.get('content-type')).toBe('application/json');
+    });
+
+    it('should share a single refresh between concurrent 401 responses', async () => {
+        const store = createTokenStore(20);
+        const mock = createProtectedApi(authorization => authorization === 'Bearer token-1', 5);
+        const api = createFetchT({ baseURL: `${ baseUrl }/`, fetch: mock.fetch, auth: createBearerAuth(store) });
+
+        const results = await Promise.all(['a', 'b', 'c'].map(path => api(path, { responseType: 'text' })));
+
+        expect(results.map(res => res.unwrap())).toEqual(['GET ', 'GET ', 'GET ']);
+        expect(store.refreshToken).toHaveBeenCalledTimes(1);
+        expect(mock.calls).toHaveLength(6);
+    });
+
+    it('should hold new requests while a refresh is in progress', async () => {
+        const store = createTokenStore(30);
+        const mock = createProtectedApi(authorization => authorization === 'Bearer token-1');
+        const api = createFetchT({ baseURL: `${ baseUrl }/`, fetch: mock.fetch, auth: createBearerAuth(store) });
+
+        const first = api('first', { responseType: 'text' });
+        await new Promise(resolve => setTimeout(resolve, 10));
+        const second = await api('second', { responseType: 'text' });
+
+        expect(second.unwrap()).toBe('GET ');
+        expect((await first).unwrap()).toBe('GET ');
+        expect(store.refreshToken).toHaveBeenCalledTimes(1);
+        expect(mock.calls.filter(call => call.url.pathname === '/second')).toHaveLength(1);
+    });
+
+    it('should not refresh again for a 401 to a token refreshed in the meantime', async () => {
+        const store = createTokenStore();
+        let slowSent = false;
+        const mock = createMockFetch().route('/*', async call => {
+            const authorization = call.request.headers.get('authorization');
+            if (call.url.pathname === '/slow' && !slowSent) {
+                slowSent = true;
+                // Rejected only after the fast request has refreshed the token
+                return { status: 401, delay: 30 };
+            }
+            return authorization === 'Bearer token-1' ? { body: 'ok' } : { status: 401 };
+        });
+        const api = createFetchT({ baseURL: `${ baseUrl }/`, fetch: mock.fetch, auth: createBearerAuth(store) });
+
+        const slow = api('slow', { responseType: 'text' });
+        const fast = await api('fast', { responseType: 'text' });
+
+        expect(fast.unwrap()).toBe('ok');
+        expect((await slow).unwrap()).toBe('ok');
+        expect(store.refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the 401 FetchError when the replay is rejected too', async () => {
+        const store = createTokenStore();
+        const mock = createProtectedApi(() => false);
+
+        const err = (await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth: createBearerAuth(store) })).unwrapErr() as FetchError;
+
+        expect(err).toBeInstanceOf(FetchError);
+        expect(err.status).toBe(401);
+        expect(store.refreshToken).toHaveBeenCalledTimes(1);
+        expect(mock.calls).toHaveLength(2);
+    });
+
+    it('should attach the refresh failure as cause of the 401 FetchError', async () => {
+        const refreshError = new Error('refresh token expired');
+        const mock = createProtectedApi(() => false);
+        const auth = createBearerAuth({
+            getToken: () => 'expired',
+            refreshToken: () => {
+                throw refreshError;
+            },
+        });
+
+        const results = await Promise.all([1, 2].map(() => fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth })));
+
+        for (const res of results) {
+            const err = res.unwrapErr() as FetchError;
+            expect(err).toBeInstanceOf(FetchError);
+            expect(err.status).toBe(401);
+            expect(err.message).toBe('Unauthorized');
+            expect(err.headers.get('www-authenticate')).toBe('Bearer');
+            expect(err.cause).toBe(refreshError);
+        }
+        expect(mock.calls).toHaveLength(2);
+
+        // A later 401 tries to refresh again
+        await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth });
+        expect(mock.calls).toHaveLength(3);
+    });
+
+    it('should run inside user middleware', async () => {
+        const seen: (string | null)[] = [];
+        const mock = createProtectedApi(authorization => authorization === 'Bearer token-0');
+
+        await fetchT(`${ baseUrl }/me`, {
+            fetch: mock.fetch,
+            auth: createBearerAuth(createTokenStore()),
+            middleware: [(request, next) => {
+                seen.push(request.headers.get('authorization'));
+                return next(request);
+            }],
+        });
+
+        expect(seen).toEqual([null]);
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => createBearerAuth({ getToken: 'token' as never, refreshToken: () => '' })).toThrow('getToken must be a function but received string');
+        expect(() => createBearerAuth({ getToken: () => '', refreshToken: undefined as never })).toThrow('refreshToken must be a function but received undefined');
+        expect(() => createBearerAuth({ getToken: () => '', refreshToken: () => '', scheme: 1 as never })).toThrow('scheme must be a string but received number');
+        expect(() => fetchT(`${ baseUrl }/me`, { auth: {} as never })).toThrow('auth must be a FetchAuth');
+    });
+});
+
+// Credentials and challenge of the RFC 7616 example (section 3.9.1)
+const rfcUrl = 'http://www.example.org/dir/index.html';
+const rfcChallenge = 'realm="http-auth@example.org", qop="auth, auth-int", nonce="7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v", opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"';
+const rfcOptions = { username: 'Mufasa', password: 'Circle of Life', cnonce: () => 'f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ' };
+
+async function sha256Hex(value: string): Promise<string> {
+    const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Answers with the request body when `isValid`, otherwise with 401 and the challenge of `getChallenge`.
+ */
+function createDigestApi(isValid: (authorization: string | null) => boolean, getChallenge: () => HeadersInit) {
+    return createMockFetch().route('/*', async (call: MockFetchCall) => {
+        return isValid(call.request.headers.get('authorization'))
+            ? { body: `${ call.method } ${ call.body }` }
+            : { status: 401, statusText: 'Unauthorized', headers: getChallenge() };
+    });
+}
+
+/**
+ * Reads a parameter of a Digest `Authorization` header.
+ */
+function getParam(authorization: string | null | undefined, name: string): string | undefined {
+    return new RegExp(`${ name }="?([^",]*)`).exec(authorization ?? '')?.[1];
+}
+
+describe('createDigestAuth', () => {
+    it('should answer the SHA-256 challenge of RFC 7616 in preference to MD5', async () => {
+        const mock = createDigestApi(authorization => authorization != null, () => [
+            ['www-authenticate', `Digest ${ rfcChallenge }, algorithm=MD5`],
+            ['www-authenticate', `Digest ${ rfcChallenge }, algorithm=SHA-256`],
+        ]);
+
+        const res = await fetchT(rfcUrl, { fetch: mock.fetch, auth: createDigestAuth(rfcOptions), responseType: 'text' });
+
+        expect(res.unwrap()).toBe('GET ');
+        expect(mock.calls).toHaveLength(2);
+        expect(mock.calls[0].request.headers.has('authorization')).toBe(false);
+        expect(mock.calls[1].request.headers.get('authorization')).toBe(
+            'Digest username="Mufasa", realm="http-auth@example.org", uri="/dir/index.html", algorithm=SHA-256, '
+            + 'nonce="7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v", nc=00000001, cnonce="f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ", '
+            + 'qop=auth, response="753927fa0e85d155564e2e272a28d1802ca10daf4496794697cf8db5856cb6c1", opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"',
+        );
+    });
+
+    it('should answer MD5 challenges', async () => {
+        const mock = createDigestApi(authorization => authorization != null, () => ({ 'www-authenticate': `Digest ${ rfcChallenge }, algorithm=MD5` }));
+
+        await fetchT(rfcUrl, { fetch: mock.fetch, auth: createDigestAuth(rfcOptions) });
+        expect(getParam(mock.calls[1].request.headers.get('authorization'), 'response')).toBe('8ca523f5e9506fed4657c9700eebdbec');
+
+        // RFC 2617 example, with the default algorithm
+        const legacy = createDigestApi(authorization => authorization != null, () => ({
+            'www-authenticate': 'Digest realm="testrealm@host.com", qop="auth,auth-int", nonce="dcd98b7102dd2f0e8b11d0f600bfb0c093", opaque="5ccc069c403ebaf9f0171e9517f40e41"',
+        }));
+
+        await fetchT(rfcUrl, { fetch: legacy.fetch, auth: createDigestAuth({ username: 'Mufasa', password: 'Circle Of Life', cnonce: () => '0a4f113b' }) });
+        expect(getParam(legacy.calls[1].request.headers.get('authorization'), 'response')).toBe('6629fae49393a05397450978507c4ef1');
+    });
+
+    it('should support -sess algorithms and challenges without qop', async () => {
+        const sess = createDigestApi(authorization => authorization != null, () => ({ 'www-authenticate': 'Digest realm="r", nonce="n", algorithm=SHA-256-sess, qop=auth' }));
+
+        await fetchT(`${ baseUrl }/a`, { fetch: sess.fetch, auth: createDigestAuth({ username: 'u', password: 'p', cnonce: () => 'c' }) });
+
+        const ha1 = await sha256Hex(`${ await sha256Hex('u:r:p') }:n:c`);
+        expect(getParam(sess.calls[1].request.headers.get('authorization'), 'response')).toBe(await sha256Hex(`${ ha1 }:n:00000001:c:auth:${ await sha256Hex('GET:/a') }`));
+
+        const noQop = createDigestApi(authorization => authorization != null, () => ({ 'www-authenticate': 'Digest realm="r", nonce="n", algorithm="SHA-256"' }));
+
+        await fetchT(`${ baseUrl }/a?b=1`, { fetch: noQop.fetch, auth: createDigestAuth({ username: 'u', password: 'p' }) });
+
+        const authorization = noQop.calls[1].request.headers.get('authorization');
+        expect(authorization).not.toContain('qop=');
+        expect(authorization).not.toContain('cnonce=');
+        expect(getParam(authorization, 'response')).toBe(await sha256Hex(`${ await sha256Hex('u:r:p') }:n:${ await sha256Hex('GET:/a?b=1') }`));
+    });
+
+    it('should reuse the nonce for later requests to the same origin and replay bodies', async () => {
+        const mock = createDigestApi(authorization => authorization != null, () => ({ 'www-authenticate': 'Digest realm="r", nonce="n1", qop=auth' }));
+        const api = createFetchT({ baseURL: `${ baseUrl }/`, fetch: mock.fetch, auth: createDigestAuth({ username: 'u', password: 'p' }) });
+
+        expect((await api('items', { method: 'POST', body: 'one', responseType: 'text' })).unwrap()).toBe('POST one');
+        expect((await api('items', { method: 'POST', body: 'two', responseType: 'text' })).unwrap()).toBe('POST two');
+        expect((await api('items', { responseType: 'text' })).unwrap()).toBe('GET ');
+
+        expect(mock.calls).toHaveLength(4);
+        expect(mock.calls.map(call => getParam(call.request.headers.get('authorization'), 'nc'))).toEqual([undefined, '00000001', '00000002', '00000003']);
+
+        const cnonces = mock.calls.slice(1).map(call => getParam(call.request.headers.get('authorization'), 'cnonce'));
+        expect(new Set(cnonces).size).toBe(3);
+        expect(cnonces[0]).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('should keep a nonce per realm of the same origin', async () => {
+        const mock = createDigestApi(
+            authorization => authorization != null,
+            () => {
+                const realm = new URL(mock.calls.at(-1)?.url ?? '').pathname.split('/')[1];
+                return { 'www-authenticate': `Digest realm="${ realm }", nonce="${ realm }-nonce", qop=auth` };
+            },
+        );
+        const auth = createDigestAuth({ username: 'u', password: 'p' });
+
+        for (const path of ['a/1', 'b/1', 'a/2', 'b/2', 'a/3']) {
+            expect((await fetchT(`${ baseUrl }/${ path }`, { fetch: mock.fetch, auth })).isOk()).toBe(true);
+        }
+
+        // Only the first request of each realm is challenged
+        expect(mock.calls.map(call => {
+            const authorization = call.request.headers.get('authorization');
+            return authorization == null ? null : `${ getParam(authorization, 'realm') } ${ getParam(authorization, 'nc') }`;
+        })).toEqual([null, 'a 00000001', null, 'b 00000001', 'a 00000002', 'b 00000002', 'a 00000003']);
+    });
+
+    it('should reuse the nonce for the URIs of the domain parameter', async () => {
+        const mock = createDigestApi(
+            authorization => authorization != null,
+            () => ({ 'www-authenticate': 'Digest realm="r", nonce="n", qop=auth, domain="/files/ /reports/"' }),
+        );
+        const auth = createDigestAuth({ username: 'u', password: 'p' });
+
+        await fetchT(`${ baseUrl }/files/a`, { fetch: mock.fetch, auth });
+        await fetchT(`${ baseUrl }/reports/b`, { fetch: mock.fetch, auth });
+        await fetchT(`${ baseUrl }/other`, { fetch: mock.fetch, auth });
+
+        expect(mock.calls.map(call => getParam(call.request.headers.get('authorization'), 'nc'))).toEqual([undefined, '00000001', '00000002', undefined, '00000001']);
+    });
+
+    it('should replay with the new nonce when a reused nonce is stale', async () => {
+        let nonce = 'n1';
+        const mock = createDigestApi(
+            authorization => getParam(authorization, 'nonce') === nonce,
+            () => ({ 'www-authenticate': `Digest realm="r", nonce="${ nonce }", qop=auth${ getParam(mock.calls.at(-1)?.request.headers.get('authorization'), 'nonce') ? ', stale=true' : '' }` }),
+        );
+        const auth = createDigestAuth({ username: 'u', password: 'p' });
+
+        expect((await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth })).isOk()).toBe(true);
+
+        nonce = 'n2';
+        expect((await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth })).isOk()).toBe(true);
+
+        expect(mock.calls.map(call => getParam(call.request.headers.get('authorization'), 'nonce'))).toEqual([undefined, 'n1', 'n1', 'n2']);
+        expect(getParam(mock.calls[3].request.headers.get('authorization'), 'nc')).toBe('00000001');
+    });
+
+    it('should return the 401 when the credentials are rejected', async () => {
+        const mock = createDigestApi(() => false, () => ({ 'www-authenticate': 'Digest realm="r", nonce="n", qop=auth' }));
+        const auth = createDigestAuth({ username: 'u', password: 'wrong' });
+
+        const err = (await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth })).unwrapErr() as FetchError;
+        expect(err.status).toBe(401);
+        expect(mock.calls).toHaveLength(2);
+
+        // The rejected nonce is not reused
+        await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth });
+        expect(mock.calls).toHaveLength(4);
+        expect(mock.calls[2].request.headers.has('authorization')).toBe(false);
+    });
+
+    it('should return a 401 without supported Digest challenge as is', async () => {
+        for (const challenge of ['Basic realm="r"', 'Digest realm="r", nonce="n", qop="auth-int"', 'Digest realm="r", nonce="n", algorithm=SHA-512-256', 'Digest nonce="n"']) {
+            const mock = createDigestApi(() => false, () => ({ 'www-authenticate': challenge }));
+
+            const err = (await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth: createDigestAuth({ username: 'u', password: 'p' }) })).unwrapErr() as FetchError;
+            expect(err.status).toBe(401);
+            expect(mock.calls).toHaveLength(1);
+        }
+
+        const mock = createMockFetch().route('/*', { status: 401 });
+        await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth: createDigestAuth({ username: 'u', password: 'p' }) });
+        expect(mock.calls).toHaveLength(1);
+    });
+
+    it('should quote user names', async () => {
+        const mock = createDigestApi(authorization => authorization != null, () => ({ 'www-authenticate': 'Digest realm="say \\"hi\\"", nonce="n"' }));
+
+        await fetchT(`${ baseUrl }/me`, { fetch: mock.fetch, auth: createDigestAuth({ username: 'a"b\\c', password: 'p' }) });
+
+        const authorization = mock.calls[1].request.headers.get('authorization');
+        expect(authorization).toContain('username="a\\"b\\\\c"');
+        expect(authorization).toContain('realm="say \\"hi\\""');
+        expect(authorization).toContain('algorithm=MD5');
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => createDigestAuth({ username: 1 as never, password: 'p' })).toThrow('username must be a string but received number');
+        expect(() => createDigestAuth({ username: 'u', password: undefined as never })).toThrow('password must be a string but received undefined');
+        expect(() => createDigestAuth({ username: 'u', password: 'p', cnonce: 'c' as never })).toThrow('cnonce must be a function but received string');
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createBackoff, type FetchBackoffStrategy } from '../src/mod.ts';
+
+function delays(backoff: (attempt: number) => number, count: number): number[] {
+    return Array.from({ length: count }, (_, i) => backoff(i + 1));
+}
+
+describe('createBackoff', () => {
+    it('should grow exponentially up to max', () => {
+        expect(delays(createBackoff({ strategy: 'exponential' }), 4)).toEqual([100, 200, 400, 800]);
+        expect(delays(createBackoff({ strategy: 'exponential', base: 50, factor: 3, max: 1000 }), 5)).toEqual([50, 150, 450, 1000, 1000]);
+    });
+
+    it('should grow linearly up to max', () => {
+        expect(delays(createBackoff({ strategy: 'linear' }), 4)).toEqual([100, 200, 300, 400]);
+        expect(delays(createBackoff({ strategy: 'linear', base: 100, factor: 0.5, max: 180 }), 3)).toEqual([100, 150, 180]);
+        expect(delays(createBackoff({ strategy: 'linear', factor: 0 }), 3)).toEqual([100, 100, 100]);
+    });
+
+    it('should apply full jitter to the exponential delay', () => {
+        expect(delays(createBackoff({ strategy: 'fullJitter', random: () => 0.5 }), 3)).toEqual([50, 100, 200]);
+        expect(delays(createBackoff({ strategy: 'fullJitter', max: 150, random: () => 0.5 }), 3)).toEqual([50, 75, 75]);
+        expect(delays(createBackoff({ strategy: 'fullJitter', random: () => 0 }), 3)).toEqual([0, 0, 0]);
+    });
+
+    it('should derive decorrelated jitter from the previous delay', () => {
+        // Upper bound of the random range: base 100 -> 300 -> 900 -> capped 1000
+        expect(delays(createBackoff({ strategy: 'decorrelatedJitter', max: 1000, random: () => 1 }), 4)).toEqual([300, 900, 1000, 1000]);
+        // Lower bound never goes below base
+        expect(delays(createBackoff({ strategy: 'decorrelatedJitter', random: () => 0 }), 3)).toEqual([100, 100, 100]);
+        // Midpoint: 100 + 0.5 * (300 - 100) = 200, then 100 + 0.5 * (600 - 100) = 350
+        expect(delays(createBackoff({ strategy: 'decorrelatedJitter', random: () => 0.5 }), 2)).toEqual([200, 350]);
+    });
+
+    it('should create independent state for each backoff', () => {
+        const options = { strategy: 'decorrelatedJitter', random: () => 1 } as const;
+        const first = createBackoff(options);
+
+        expect(delays(first, 2)).toEqual([300, 900]);
+        expect(delays(createBackoff(options), 2)).toEqual([300, 900]);
+    });
+
+    it('should use Math.random by default', () => {
+        const backoff = createBackoff({ strategy: 'fullJitter', base: 1000 });
+
+        for (let i = 0; i < 10; i++) {
+            const value = backoff(1);
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1000);
+        }
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => createBackoff({ strategy: 'random' as FetchBackoffStrategy })).toThrow('Backoff strategy must be one of exponential, linear, fullJitter, decorrelatedJitter but received random');
+        expect(() => createBackoff({ strategy: 'linear', base: '100' as unknown as number })).toThrow('Backoff base must be a number but received string');
+        expect(() => createBackoff({ strategy: 'linear', factor: NaN })).toThrow('Backoff factor must be a number but received number');
+        expect(() => createBackoff({ strategy: 'linear', max: -1 })).toThrow('Backoff max must be a non-negative number but received -1');
+        expect(() => createBackoff({ strategy: 'fullJitter', random: 0.5 as unknown as () => number })).toThrow('Backoff random must be a function but received number');
+    });
+});
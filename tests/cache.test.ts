@@ -0,0 +1,405 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createBearerAuth, createFetchT, createMemoryCacheStore, fetchT, type FetchCacheEntry, type FetchCacheStore } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+
+// Request log shared by handlers: [method, url, If-None-Match, If-Modified-Since]
+const requests: { method: string; url: string; ifNoneMatch: string | null; ifModifiedSince: string | null; }[] = [];
+
+const server = setupServer(
+    // GET /fresh - cacheable for 60 seconds
+    http.get(`${baseUrl}/fresh`, () => {
+        return new HttpResponse('fresh data', {
+            headers: { 'Cache-Control': 'max-age=60' },
+        });
+    }),
+
+    // GET /etag - must revalidate, 304 when ETag matches
+    http.get(`${baseUrl}/etag`, ({ request }) => {
+        if (request.headers.get('if-none-match') === '"v1"') {
+            return new HttpResponse(null, {
+                status: 304,
+                headers: { ETag: '"v1"', 'X-Revalidated': 'yes' },
+            });
+        }
+        return new HttpResponse('etag data', {
+            headers: { 'Cache-Control': 'no-cache', ETag: '"v1"' },
+        });
+    }),
+
+    // GET /last-modified - stale immediately, 304 when not modified
+    http.get(`${baseUrl}/last-modified`, ({ request }) => {
+        if (request.headers.get('if-modified-since') === 'Wed, 01 Jan 2025 00:00:00 GMT') {
+            return new HttpResponse(null, { status: 304 });
+        }
+        return new HttpResponse('last-modified data', {
+            headers: { 'Last-Modified': 'Wed, 01 Jan 2025 00:00:00 GMT' },
+        });
+    }),
+
+    // GET /no-store - never stored
+    http.get(`${baseUrl}/no-store`, () => {
+        return new HttpResponse('secret', {
+            headers: { 'Cache-Control': 'no-store, max-age=60' },
+        });
+    }),
+
+    // GET /expires - fresh according to Expires and Date
+    http.get(`${baseUrl}/expires`, () => {
+        const now = Date.now();
+        return new HttpResponse('expires data', {
+            headers: {
+                Date: new Date(now).toUTCString(),
+                Expires: new Date(now + 60_000).toUTCString(),
+            },
+        });
+    }),
+
+    // GET /expired - Expires with invalid date means already expired
+    http.get(`${baseUrl}/expired`, () => {
+        return new HttpResponse('expired data', {
+            headers: { Expires: '0', ETag: '"e"' },
+        });
+    }),
+
+    // GET /vary - response varies on Accept-Language
+    http.get(`${baseUrl}/vary`, ({ request }) => {
+        return new HttpResponse(request.headers.get('accept-language'), {
+            headers: { 'Cache-Control': 'max-age=60', Vary: 'Accept-Language' },
+        });
+    }),
+
+    // GET /private - cacheable response for the user of the Authorization header
+    http.get(`${baseUrl}/private`, ({ request }) => {
+        return new HttpResponse(`data of ${ request.headers.get('authorization') }`, {
+            headers: { 'Cache-Control': 'max-age=60' },
+        });
+    }),
+
+    // GET /uncacheable - no freshness nor validator, never stored
+    http.get(`${baseUrl}/uncacheable`, () => {
+        return new HttpResponse('uncacheable');
+    }),
+
+    // GET /vary-star - never stored
+    http.get(`${baseUrl}/vary-star`, () => {
+        return new HttpResponse('vary star', {
+            headers: { 'Cache-Control': 'max-age=60', Vary: '*' },
+        });
+    }),
+
+    // GET /json - cacheable JSON
+    http.get(`${baseUrl}/json`, () => {
+        return HttpResponse.json({ id: 1 }, {
+            headers: { 'Cache-Control': 'max-age=60' },
+        });
+    }),
+
+    // POST /fresh - unsafe method invalidating the cached GET
+    http.post(`${baseUrl}/fresh`, () => {
+        return new HttpResponse(null, { status: 204 });
+    }),
+
+    // GET /error - not cacheable status
+    http.get(`${baseUrl}/error`, () => {
+        return new HttpResponse(null, {
+            status: 500,
+            statusText: 'Internal Server Error',
+            headers: { 'Cache-Control': 'max-age=60' },
+        });
+    }),
+);
+
+beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' });
+    server.events.on('request:start', ({ request }) => {
+        requests.push({
+            method: request.method,
+            url: request.url,
+            ifNoneMatch: request.headers.get('if-none-match'),
+            ifModifiedSince: request.headers.get('if-modified-since'),
+        });
+    });
+});
+afterEach(() => {
+    server.resetHandlers();
+    requests.length = 0;
+    vi.restoreAllMocks();
+});
+afterAll(() => server.close());
+
+describe('httpCache', () => {
+    it('should serve fresh responses from cache without network requests', async () => {
+        const store = createMemoryCacheStore();
+
+        const first = await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+        const second = await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+        const third = await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'arraybuffer' });
+
+        expect(first.unwrap()).toBe('fresh data');
+        expect(second.unwrap()).toBe('fresh data');
+        expect(new TextDecoder().decode(third.unwrap())).toBe('fresh data');
+        expect(requests.length).toBe(1);
+    });
+
+    it('should set Age header on cached responses', async () => {
+        const store = createMemoryCacheStore();
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+
+        const now = Date.now();
+        vi.spyOn(Date, 'now').mockReturnValue(now + 30_000);
+
+        const res = (await fetchT(`${ baseUrl }/fresh`, { httpCache: store })).unwrap();
+        expect(Number(res.headers.get('age'))).toBeGreaterThanOrEqual(29);
+        expect(await res.text()).toBe('fresh data');
+        expect(requests.length).toBe(1);
+    });
+
+    it('should revalidate stale entries after max-age expires', async () => {
+        const store = createMemoryCacheStore();
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000);
+
+        const res = await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+        expect(res.unwrap()).toBe('fresh data');
+        expect(requests.length).toBe(2);
+    });
+
+    it('should send If-None-Match and turn 304 into the cached body', async () => {
+        const store = createMemoryCacheStore();
+
+        const first = await fetchT(`${ baseUrl }/etag`, { httpCache: store, responseType: 'text' });
+        const second = await fetchT(`${ baseUrl }/etag`, { httpCache: store, responseType: 'blob' });
+        const third = await fetchT(`${ baseUrl }/etag`, { httpCache: store, responseType: 'stream' });
+
+        expect(first.unwrap()).toBe('etag data');
+        expect(await second.unwrap().text()).toBe('etag data');
+        expect(await new Response(third.unwrap()).text()).toBe('etag data');
+
+        expect(requests.map(r => r.ifNoneMatch)).toEqual([null, '"v1"', '"v1"']);
+    });
+
+    it('should update stored headers from 304 responses', async () => {
+        const store = createMemoryCacheStore();
+
+        await fetchT(`${ baseUrl }/etag`, { httpCache: store, responseType: 'text' });
+        const res = (await fetchT(`${ baseUrl }/etag`, { httpCache: store })).unwrap();
+
+        expect(res.status).toBe(200);
+        expect(res.headers.get('x-revalidated')).toBe('yes');
+        expect(await res.text()).toBe('etag data');
+    });
+
+    it('should send If-Modified-Since for entries with Last-Modified', async () => {
+        const store = createMemoryCacheStore();
+
+        await fetchT(`${ baseUrl }/last-modified`, { httpCache: store, responseType: 'text' });
+        const res = await fetchT(`${ baseUrl }/last-modified`, { httpCache: store, responseType: 'text' });
+
+        expect(res.unwrap()).toBe('last-modified data');
+        expect(requests.map(r => r.ifModifiedSince)).toEqual([null, 'Wed, 01 Jan 2025 00:00:00 GMT']);
+    });
+
+    it('should work with json responseType and 304', async () => {
+        const store = createMemoryCacheStore();
+
+        await fetchT(`${ baseUrl }/json`, { httpCache: store, responseType: 'json' });
+        const res = await fetchT<{ id: number; }>(`${ baseUrl }/json`, { httpCache: store, responseType: 'json' });
+
+        expect(res.unwrap()).toEqual({ id: 1 });
+        expect(requests.length).toBe(1);
+    });
+
+    it('should not store no-store, Vary: * or non-200 responses', async () => {
+        // The store is frozen, spy on a copy
+        const store = { ...createMemoryCacheStore() };
+        const set = vi.spyOn(store, 'set');
+
+        await fetchT(`${ baseUrl }/no-store`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/no-store`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/vary-star`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/vary-star`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/error`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/error`, { httpCache: store, responseType: 'text' });
+
+        expect(requests.length).toBe(6);
+        expect(set).not.toHaveBeenCalled();
+    });
+
+    it('should not store responses without freshness nor validator', async () => {
+        // The store is frozen, spy on a copy
+        const store = { ...createMemoryCacheStore() };
+        const set = vi.spyOn(store, 'set');
+
+        await fetchT(`${ baseUrl }/uncacheable`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/uncacheable`, { httpCache: store, responseType: 'text' });
+
+        expect(requests.length).toBe(2);
+        expect(set).not.toHaveBeenCalled();
+    });
+
+    it('should honor Expires and Date headers', async () => {
+        const store = createMemoryCacheStore();
+
+        await fetchT(`${ baseUrl }/expires`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/expires`, { httpCache: store, responseType: 'text' });
+        expect(requests.length).toBe(1);
+
+        await fetchT(`${ baseUrl }/expired`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/expired`, { httpCache: store, responseType: 'text' });
+        expect(requests.length).toBe(3);
+        expect(requests[2].ifNoneMatch).toBe('"e"');
+    });
+
+    it('should match entries by Vary request headers', async () => {
+        const store = createMemoryCacheStore();
+        const get = (language: string) => fetchT(`${ baseUrl }/vary`, {
+            httpCache: store,
+            headers: { 'Accept-Language': language },
+            responseType: 'text',
+        });
+
+        expect((await get('en')).unwrap()).toBe('en');
+        expect((await get('en')).unwrap()).toBe('en');
+        expect((await get('fr')).unwrap()).toBe('fr');
+        expect(requests.length).toBe(2);
+    });
+
+    it('should only serve entries to the same credentials', async () => {
+        const client = (token: string) => createFetchT({
+            baseURL: `${ baseUrl }/`,
+            httpCache: true,
+            auth: createBearerAuth({ getToken: () => token, refreshToken: () => token }),
+        });
+        const alice = client('alice');
+        const bob = client('bob');
+
+        expect((await alice('private', { responseType: 'text' })).unwrap()).toBe('data of Bearer alice');
+        expect((await bob('private', { responseType: 'text' })).unwrap()).toBe('data of Bearer bob');
+        expect((await fetchT(`${ baseUrl }/private`, { httpCache: true, responseType: 'text' })).unwrap()).toBe('data of null');
+        expect(requests.length).toBe(3);
+
+        // Entries are still reused for the same credentials
+        expect((await fetchT(`${ baseUrl }/private`, { httpCache: true, responseType: 'text' })).unwrap()).toBe('data of null');
+        expect(requests.length).toBe(3);
+    });
+
+    it('should invalidate entries after successful unsafe requests', async () => {
+        const store = createMemoryCacheStore();
+
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, method: 'POST', body: 'x' });
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+
+        expect(requests.map(r => r.method)).toEqual(['GET', 'POST', 'GET']);
+    });
+
+    it('should pass HEAD requests through without caching', async () => {
+        server.use(
+            http.head(`${baseUrl}/fresh`, () => new HttpResponse(null, { headers: { 'Cache-Control': 'max-age=60' } })),
+        );
+        const store = createMemoryCacheStore();
+
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, method: 'HEAD' });
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, method: 'HEAD' });
+
+        expect(requests.length).toBe(2);
+    });
+
+    it('should honor cache request modes', async () => {
+        const store = createMemoryCacheStore();
+
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+
+        // no-cache: always revalidate
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, cache: 'no-cache', responseType: 'text' });
+        // reload: skip lookup but store the response
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, cache: 'reload', responseType: 'text' });
+        // no-store: bypass entirely
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, cache: 'no-store', responseType: 'text' });
+        expect(requests.length).toBe(4);
+
+        await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+        expect(requests.length).toBe(4);
+    });
+
+    it('should bypass cache for requests with own conditional or range headers', async () => {
+        const store = createMemoryCacheStore();
+
+        await fetchT(`${ baseUrl }/etag`, { httpCache: store, responseType: 'text' });
+        const res = await fetchT(`${ baseUrl }/etag`, {
+            httpCache: store,
+            headers: { 'If-None-Match': '"v1"' },
+        });
+
+        // The raw 304 is returned to the caller
+        expect(res.isErr()).toBe(true);
+    });
+
+    it('should share the default store with httpCache: true', async () => {
+        const api = createFetchT({ baseURL: `${ baseUrl }/`, httpCache: true });
+
+        await api('json', { responseType: 'text' });
+        await fetchT(`${ baseUrl }/json`, { httpCache: true, responseType: 'text' });
+
+        expect(requests.length).toBe(1);
+    });
+
+    it('should ignore store errors', async () => {
+        const store: FetchCacheStore = {
+            get: () => Promise.reject(new Error('get failed')),
+            set: () => {
+                throw new Error('set failed');
+            },
+            delete: () => {},
+        };
+
+        const res = await fetchT(`${ baseUrl }/fresh`, { httpCache: store, responseType: 'text' });
+        expect(res.unwrap()).toBe('fresh data');
+    });
+
+    it('should throw TypeError for invalid httpCache', () => {
+        expect(() => fetchT(`${ baseUrl }/fresh`, {
+            httpCache: {} as FetchCacheStore,
+        })).toThrow('httpCache must be a boolean or a FetchCacheStore');
+        expect(() => fetchT(`${ baseUrl }/fresh`, {
+            httpCache: 'yes' as unknown as boolean,
+        })).toThrow(TypeError);
+    });
+});
+
+describe('createMemoryCacheStore', () => {
+    const entry = (body: string): FetchCacheEntry => ({
+        status: 200,
+        statusText: 'OK',
+        headers: [],
+        body: new TextEncoder().encode(body).buffer,
+        vary: {},
+        storedAt: Date.now(),
+    });
+
+    it('should evict the least recently used entry', () => {
+        const store = createMemoryCacheStore({ maxEntries: 2 });
+
+        store.set('a', entry('a'));
+        store.set('b', entry('b'));
+        // Touch `a` so `b` becomes the least recently used
+        store.get('a');
+        store.set('c', entry('c'));
+
+        expect(store.get('a')).toBeDefined();
+        expect(store.get('b')).toBeUndefined();
+        expect(store.get('c')).toBeDefined();
+
+        store.delete('a');
+        expect(store.get('a')).toBeUndefined();
+    });
+
+    it('should throw for invalid maxEntries', () => {
+        expect(() => createMemoryCacheStore({ maxEntries: 0 })).toThrow('maxEntries must be a positive integer but received 0');
+        expect(() => createMemoryCacheStore({ maxEntries: 1.5 })).toThrow(Error);
+    });
+});
@@ -0,0 +1,302 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CircuitOpenError, createCircuitBreaker, createFetchT, fetchT, type CircuitBreakerOptions, type FetchCircuitState } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+const otherUrl = 'http://other.test';
+
+// Status returned by /status, switched by tests
+let status = 200;
+let requestCount = 0;
+
+const server = setupServer(
+    http.get(`${baseUrl}/status`, () => {
+        requestCount++;
+        return new HttpResponse('body', { status });
+    }),
+
+    http.get(`${otherUrl}/status`, () => {
+        requestCount++;
+        return new HttpResponse('other');
+    }),
+
+    http.get(`${baseUrl}/network-error`, () => {
+        requestCount++;
+        return HttpResponse.error();
+    }),
+
+    // GET /slow - responds after 100ms
+    http.get(`${baseUrl}/slow`, async () => {
+        requestCount++;
+        await new Promise(resolve => setTimeout(resolve, 100));
+        return new HttpResponse('slow');
+    }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => {
+    server.resetHandlers();
+    vi.useRealTimers();
+    status = 200;
+    requestCount = 0;
+});
+afterAll(() => server.close());
+
+describe('createCircuitBreaker', () => {
+    function setup(options?: CircuitBreakerOptions) {
+        const transitions: [string, FetchCircuitState, FetchCircuitState][] = [];
+        const breaker = createCircuitBreaker({
+            onStateChange: (key, from, to) => transitions.push([key, from, to]),
+            ...options,
+        });
+        const request = (path = '/status') => fetchT(`${ baseUrl }${ path }`, { circuitBreaker: breaker, responseType: 'text' });
+
+        return { breaker, transitions, request };
+    }
+
+    it('should open after consecutive failures and fail fast', async () => {
+        const { breaker, transitions, request } = setup({ failureThreshold: 3 });
+        status = 503;
+
+        for (let i = 0; i < 3; i++) {
+            expect((await request()).unwrapErr().name).toBe('FetchError');
+        }
+
+        expect(breaker.getState(baseUrl)).toBe('open');
+        expect(transitions).toEqual([[baseUrl, 'closed', 'open']]);
+
+        const err = (await request()).unwrapErr();
+        expect(err).toBeInstanceOf(CircuitOpenError);
+        expect(err.message).toBe(`Circuit for ${ baseUrl } is open`);
+        expect((err as CircuitOpenError).key).toBe(baseUrl);
+        expect((err as CircuitOpenError).retryAfter).toBeGreaterThan(29_000);
+        expect(requestCount).toBe(3);
+    });
+
+    it('should reset the consecutive failure count on success', async () => {
+        const { breaker, request } = setup({ failureThreshold: 2 });
+
+        status = 500;
+        await request();
+        status = 200;
+        await request();
+        status = 500;
+        await request();
+
+        expect(breaker.getState(baseUrl)).toBe('closed');
+    });
+
+    it('should count network errors but not 4xx responses', async () => {
+        const { breaker, request } = setup({ failureThreshold: 2 });
+
+        status = 404;
+        await request();
+        await request();
+        expect(breaker.getState(baseUrl)).toBe('closed');
+
+        await request('/network-error');
+        await request('/network-error');
+        expect(breaker.getState(baseUrl)).toBe('open');
+    });
+
+    it('should open when the failure rate is exceeded', async () => {
+        const { breaker, request } = setup({ failureThreshold: 100, failureRateThreshold: 0.5, minimumRequests: 4, windowSize: 4 });
+
+        for (const code of [500, 200, 500]) {
+            status = code;
+            await request();
+        }
+        // Not enough requests yet
+        expect(breaker.getState(baseUrl)).toBe('closed');
+
+        status = 200;
+        await request();
+        expect(breaker.getState(baseUrl)).toBe('open');
+    });
+
+    it('should only consider the most recent requests for the failure rate', async () => {
+        const { breaker, request } = setup({ failureThreshold: 100, failureRateThreshold: 1, minimumRequests: 2, windowSize: 2 });
+
+        for (const code of [500, 200, 500]) {
+            status = code;
+            await request();
+            expect(breaker.getState(baseUrl)).toBe('closed');
+        }
+
+        // Overall rate is 3/4, but the window only holds the last two failures
+        await request();
+        expect(breaker.getState(baseUrl)).toBe('open');
+    });
+
+    it('should go half-open after cooldown and close on a successful trial', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const { breaker, transitions, request } = setup({ failureThreshold: 1, cooldown: 1000 });
+
+        status = 500;
+        await request();
+        expect(breaker.getState(baseUrl)).toBe('open');
+
+        vi.setSystemTime(Date.now() + 1000);
+        expect(breaker.getState(baseUrl)).toBe('half-open');
+
+        status = 200;
+        expect((await request()).unwrap()).toBe('body');
+        expect(breaker.getState(baseUrl)).toBe('closed');
+        expect(transitions.map(([, from, to]) => `${ from }>${ to }`)).toEqual(['closed>open', 'open>half-open', 'half-open>closed']);
+    });
+
+    it('should reopen when the trial request fails', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const { breaker, request } = setup({ failureThreshold: 1, cooldown: 1000 });
+
+        status = 500;
+        await request();
+        vi.setSystemTime(Date.now() + 1000);
+
+        await request();
+        expect(breaker.getState(baseUrl)).toBe('open');
+        expect(((await request()).unwrapErr() as CircuitOpenError).retryAfter).toBe(1000);
+        expect(requestCount).toBe(2);
+    });
+
+    it('should let a single trial request through while half-open', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const { breaker, request } = setup({ failureThreshold: 1, cooldown: 1000 });
+
+        status = 500;
+        await request();
+        vi.setSystemTime(Date.now() + 1000);
+
+        const [trial, rejected] = await Promise.all([request('/slow'), request('/slow')]);
+
+        expect(trial.unwrap()).toBe('slow');
+        const err = rejected.unwrapErr() as CircuitOpenError;
+        expect(err).toBeInstanceOf(CircuitOpenError);
+        expect(err.retryAfter).toBe(0);
+        expect(breaker.getState(baseUrl)).toBe('closed');
+    });
+
+    it('should release the trial slot when the trial is aborted', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const { breaker, request } = setup({ failureThreshold: 1, cooldown: 1000 });
+
+        status = 500;
+        await request();
+        vi.setSystemTime(Date.now() + 1000);
+
+        const task = fetchT(`${ baseUrl }/slow`, { circuitBreaker: breaker, abortable: true });
+        task.abort();
+        expect((await task.result).unwrapErr().name).toBe('AbortError');
+        expect(breaker.getState(baseUrl)).toBe('half-open');
+
+        status = 200;
+        expect((await request()).isOk()).toBe(true);
+        expect(breaker.getState(baseUrl)).toBe('closed');
+    });
+
+    it('should keep separate circuits per origin', async () => {
+        const { breaker, request } = setup({ failureThreshold: 1 });
+
+        status = 500;
+        await request();
+
+        const res = await fetchT(`${ otherUrl }/status`, { circuitBreaker: breaker, responseType: 'text' });
+        expect(res.unwrap()).toBe('other');
+        expect(breaker.getState(baseUrl)).toBe('open');
+        expect(breaker.getState(otherUrl)).toBe('closed');
+    });
+
+    it('should support custom keys and failure predicates', async () => {
+        const { breaker, request } = setup({
+            failureThreshold: 1,
+            key: url => url.pathname,
+            isFailure: outcome => outcome instanceof Response && outcome.status === 429,
+        });
+
+        status = 500;
+        await request();
+        expect(breaker.getState('/status')).toBe('closed');
+
+        status = 429;
+        await request();
+        expect(breaker.getState('/status')).toBe('open');
+        expect(breaker.getState(baseUrl)).toBe('closed');
+    });
+
+    it('should treat a throwing failure predicate as success', async () => {
+        const { breaker, request } = setup({
+            failureThreshold: 1,
+            isFailure: () => {
+                throw new Error('boom');
+            },
+        });
+
+        status = 500;
+        await request();
+        expect(breaker.getState(baseUrl)).toBe('closed');
+    });
+
+    it('should ignore errors thrown by onStateChange', async () => {
+        const breaker = createCircuitBreaker({
+            failureThreshold: 1,
+            onStateChange: () => {
+                throw new Error('boom');
+            },
+        });
+
+        status = 500;
+        await fetchT(`${ baseUrl }/status`, { circuitBreaker: breaker });
+        expect(breaker.getState(baseUrl)).toBe('open');
+    });
+
+    it('should reset circuits', async () => {
+        const { breaker, request } = setup({ failureThreshold: 1 });
+
+        status = 500;
+        await request();
+        await fetchT(`${ otherUrl }/status`, { circuitBreaker: breaker });
+        server.use(http.get(`${otherUrl}/status`, () => new HttpResponse(null, { status: 500 })));
+        await fetchT(`${ otherUrl }/status`, { circuitBreaker: breaker });
+
+        breaker.reset(baseUrl);
+        expect(breaker.getState(baseUrl)).toBe('closed');
+        expect(breaker.getState(otherUrl)).toBe('open');
+
+        breaker.reset();
+        expect(breaker.getState(otherUrl)).toBe('closed');
+    });
+
+    it('should not retry into an open circuit', async () => {
+        const { breaker } = setup({ failureThreshold: 2 });
+        status = 503;
+
+        const res = await fetchT(`${ baseUrl }/status`, {
+            circuitBreaker: breaker,
+            retry: { retries: 5, when: () => true },
+        });
+
+        expect(res.unwrapErr()).toBeInstanceOf(CircuitOpenError);
+        expect(requestCount).toBe(2);
+    });
+
+    it('should share the breaker between calls of a client', async () => {
+        const api = createFetchT({ baseURL: baseUrl, circuitBreaker: createCircuitBreaker({ failureThreshold: 1 }) });
+
+        status = 500;
+        await api('/status');
+
+        expect((await api('/status')).unwrapErr()).toBeInstanceOf(CircuitOpenError);
+        expect(requestCount).toBe(1);
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => createCircuitBreaker({ failureThreshold: 0 })).toThrow('failureThreshold must be a positive integer but received 0');
+        expect(() => createCircuitBreaker({ windowSize: 1.5 })).toThrow('windowSize must be a positive integer but received 1.5');
+        expect(() => createCircuitBreaker({ failureRateThreshold: 1.5 })).toThrow('failureRateThreshold must be a number between 0 and 1 but received 1.5');
+        expect(() => createCircuitBreaker({ cooldown: -1 })).toThrow('cooldown must be a non-negative number but received -1');
+        expect(() => createCircuitBreaker({ key: 'origin' as unknown as (url: URL) => string })).toThrow('key must be a function but received string');
+        expect(() => createCircuitBreaker({ onStateChange: 1 as unknown as () => void })).toThrow('onStateChange must be a function but received number');
+        expect(() => fetchT(`${ baseUrl }/status`, { circuitBreaker: {} as ReturnType<typeof createCircuitBreaker> })).toThrow('circuitBreaker must be a FetchCircuitBreaker');
+    });
+});
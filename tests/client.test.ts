@@ -0,0 +1,198 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createFetchT, FetchError, type FetchResult, type FetchTask } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+
+const server = setupServer(
+    // GET /v1/echo - echoes request url and headers
+    http.get(`${baseUrl}/v1/echo`, ({ request }) => {
+        return HttpResponse.json({
+            url: request.url,
+            headers: Object.fromEntries(request.headers),
+        });
+    }),
+
+    // GET /root - resource outside the /v1/ prefix
+    http.get(`${baseUrl}/root`, () => {
+        return new HttpResponse('root');
+    }),
+
+    // GET /v1/flaky - fails with 503 on the first attempt
+    http.get(`${baseUrl}/v1/flaky`, () => {
+        return new HttpResponse(null, { status: 503, statusText: 'Service Unavailable' });
+    }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+interface Echo {
+    url: string;
+    headers: Record<string, string>;
+}
+
+describe('createFetchT', () => {
+    it('should resolve relative URLs against baseURL', async () => {
+        const api = createFetchT({ baseURL: `${ baseUrl }/v1/` });
+
+        const res = await api<Echo>('echo', { responseType: 'json' });
+        expect(res.unwrap()?.url).toBe(`${ baseUrl }/v1/echo`);
+
+        const root = await api('/root', { responseType: 'text' });
+        expect(root.unwrap()).toBe('root');
+    });
+
+    it('should accept absolute URLs and URL objects', async () => {
+        const api = createFetchT({ baseURL: 'http://other.test/' });
+
+        const res = await api<Echo>(`${ baseUrl }/v1/echo`, { responseType: 'json' });
+        expect(res.unwrap()?.url).toBe(`${ baseUrl }/v1/echo`);
+
+        const res2 = await api(new URL(`${ baseUrl }/root`), { responseType: 'text' });
+        expect(res2.unwrap()).toBe('root');
+    });
+
+    it('should throw TypeError for invalid baseURL', () => {
+        expect(() => createFetchT({ baseURL: 'not a url' })).toThrow(TypeError);
+        expect(() => createFetchT({ baseURL: 'not a url' })).toThrow('Invalid baseURL: not a url');
+    });
+
+    it('should throw TypeError for relative URL without baseURL in non-browser environment', () => {
+        const api = createFetchT();
+        expect(() => api('/v1/echo')).toThrow('Invalid URL: /v1/echo');
+    });
+
+    it('should merge default headers with per-call headers', async () => {
+        const api = createFetchT({
+            baseURL: `${ baseUrl }/v1/`,
+            headers: {
+                Authorization: 'Bearer default',
+                'X-Client': 'fetch-t',
+            },
+        });
+
+        const res = await api<Echo>('echo', {
+            responseType: 'json',
+            headers: new Headers({ authorization: 'Bearer override', 'X-Extra': '1' }),
+        });
+
+        const { headers } = res.unwrap()!;
+        expect(headers['authorization']).toBe('Bearer override');
+        expect(headers['x-client']).toBe('fetch-t');
+        expect(headers['x-extra']).toBe('1');
+
+        const res2 = await api<Echo>('echo', { responseType: 'json' });
+        expect(res2.unwrap()!.headers['authorization']).toBe('Bearer default');
+    });
+
+    it('should send per-call headers when no default headers are set', async () => {
+        const api = createFetchT({ baseURL: `${ baseUrl }/v1/` });
+
+        const res = await api<Echo>('echo', {
+            responseType: 'json',
+            headers: [['X-Only', 'call']],
+        });
+
+        expect(res.unwrap()!.headers['x-only']).toBe('call');
+    });
+
+    it('should apply default options and allow per-call overrides', async () => {
+        let attempts = 0;
+        server.use(
+            http.get(`${baseUrl}/v1/flaky`, () => {
+                attempts++;
+                return new HttpResponse(null, { status: 503, statusText: 'Service Unavailable' });
+            }),
+        );
+
+        const api = createFetchT({
+            baseURL: `${ baseUrl }/v1/`,
+            retry: { retries: 2, when: [503] },
+        });
+
+        const res = await api('flaky');
+        expect((res.unwrapErr() as FetchError).status).toBe(503);
+        expect(attempts).toBe(3);
+
+        attempts = 0;
+        const res2 = await api('flaky', { retry: 0 });
+        expect(res2.isErr()).toBe(true);
+        expect(attempts).toBe(1);
+    });
+
+    it('should run client middleware before per-call middleware', async () => {
+        const order: string[] = [];
+
+        const api = createFetchT({
+            baseURL: `${ baseUrl }/`,
+            middleware: [
+                (request, next) => {
+                    order.push('client');
+                    return next(request);
+                },
+            ],
+        });
+
+        const res = await api('root', {
+            middleware: [
+                (request, next) => {
+                    order.push('call');
+                    return next(request);
+                },
+            ],
+            responseType: 'text',
+        });
+
+        expect(res.unwrap()).toBe('root');
+        expect(order).toEqual(['client', 'call']);
+
+        order.length = 0;
+        await api('root', { responseType: 'text' });
+        expect(order).toEqual(['client']);
+    });
+
+    it('should shallow-merge default query with per-call query', async () => {
+        const api = createFetchT({
+            baseURL: `${ baseUrl }/v1/`,
+            query: { lang: 'en', page: 1 },
+        });
+
+        const res = await api<Echo>('echo', {
+            query: { page: 2 },
+            responseType: 'json',
+        });
+        expect(res.unwrap()!.url).toBe(`${ baseUrl }/v1/echo?lang=en&page=2`);
+
+        const res2 = await api<Echo>('echo', { responseType: 'json' });
+        expect(res2.unwrap()!.url).toBe(`${ baseUrl }/v1/echo?lang=en&page=1`);
+    });
+
+    it('should use the client fetch unless overridden per call', async () => {
+        const clientFetch = vi.fn(() => Promise.resolve(new Response('client')));
+        const callFetch = vi.fn(() => Promise.resolve(new Response('call')));
+
+        const api = createFetchT({ baseURL: `${ baseUrl }/`, fetch: clientFetch });
+
+        expect((await api('root', { responseType: 'text' })).unwrap()).toBe('client');
+        expect((await api('root', { responseType: 'text', fetch: callFetch })).unwrap()).toBe('call');
+        expect(clientFetch).toHaveBeenCalledTimes(1);
+        expect(callFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep fetchT overload return types', async () => {
+        const api = createFetchT({ baseURL: `${ baseUrl }/` });
+
+        const task: FetchTask<string> = api('root', {
+            abortable: true,
+            responseType: 'text',
+        });
+        expect((await task.result).unwrap()).toBe('root');
+
+        const result: FetchResult<Response> = api('root');
+        const response = (await result).unwrap();
+        expect(await response.text()).toBe('root');
+    });
+});
@@ -1,7 +1,8 @@
+import { Err, Ok, type IOResult } from 'happy-rusty';
 import { http, HttpResponse } from 'msw';
 import { setupServer } from 'msw/node';
 import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
-import { ABORT_ERROR, FetchError, fetchT, TIMEOUT_ERROR, type FetchTask } from '../src/mod.ts';
+import { ABORT_ERROR, FetchError, fetchT, FetchValidationError, TIMEOUT_ERROR, type FetchInit, type FetchMiddleware, type FetchProgress, type FetchQuery, type FetchSchema, type FetchStandardSchema, type FetchTask } from '../src/mod.ts';
 
 const baseUrl = 'http://mock.test';
 
@@ -140,6 +141,21 @@ const server = setupServer(
         });
     }),
 
+    // GET /api/form - returns a url-encoded form
+    http.get(`${baseUrl}/api/form`, () => {
+        return new HttpResponse('name=fetch-t&tag=a&tag=b', {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        });
+    }),
+
+    // GET /api/multipart - returns a multipart form with a file
+    http.get(`${baseUrl}/api/multipart`, () => {
+        const form = new FormData();
+        form.append('name', 'fetch-t');
+        form.append('file', new Blob(['Hello'], { type: 'text/plain' }), 'hello.txt');
+        return HttpResponse.formData(form);
+    }),
+
     // GET /api/204 - returns 204 No Content for GET request
     http.get(`${baseUrl}/api/204`, () => {
         return new HttpResponse(null, { status: 204 });
@@ -268,6 +284,35 @@ describe('fetchT', () => {
             expect((res.unwrapErr() as Error).message).toContain('Response is invalid json');
         });
 
+        it('should get url-encoded formData by responseType', async () => {
+            const data = expectNonNull((await fetchT(`${ baseUrl }/api/form`, {
+                responseType: 'formData',
+            })).unwrap());
+            expect(data).toBeInstanceOf(FormData);
+            expect(data.get('name')).toBe('fetch-t');
+            expect(data.getAll('tag')).toEqual(['a', 'b']);
+        });
+
+        it('should get multipart formData by responseType', async () => {
+            const data = expectNonNull((await fetchT(`${ baseUrl }/api/multipart`, {
+                responseType: 'formData',
+            })).unwrap());
+            expect(data.get('name')).toBe('fetch-t');
+
+            const file = data.get('file') as File;
+            expect(file.name).toBe('hello.txt');
+            expect(await file.text()).toBe('Hello');
+        });
+
+        it('should return error for invalid formData', async () => {
+            const res = await fetchT(`${ baseUrl }/api/text`, {
+                responseType: 'formData',
+            });
+            expect(res.isErr()).toBe(true);
+            expect((res.unwrapErr() as Error).message).toBe('Response is invalid formData while responseType is formData');
+            expect((res.unwrapErr() as Error).cause).toBeInstanceOf(Error);
+        });
+
         it('should get stream by responseType', async () => {
             const result = await fetchT(`${ baseUrl }/api/stream`, {
                 responseType: 'stream',
@@ -343,6 +388,21 @@ describe('fetchT', () => {
             expect(result.unwrap()).toBeNull();
         });
 
+        it('should return null formData for HEAD request with formData responseType', async () => {
+            const result = await fetchT(`${ baseUrl }/api/data`, {
+                method: 'HEAD',
+                responseType: 'formData',
+            });
+            expect(result.unwrap()).toBeNull();
+        });
+
+        it('should return null formData for 204 response with formData responseType', async () => {
+            const result = await fetchT(`${ baseUrl }/api/204`, {
+                responseType: 'formData',
+            });
+            expect(result.unwrap()).toBeNull();
+        });
+
         it('should return null json for 204 response with json responseType', async () => {
             const result = await fetchT<{ ok: boolean; }>(`${ baseUrl }/api/data`, {
                 method: 'DELETE',
@@ -588,7 +648,7 @@ describe('fetchT', () => {
         it('should throw error for invalid retry delay', () => {
             expect(() => fetchT(`${ baseUrl }/api/data`, { retry: { retries: 1, delay: -100 } })).toThrow(/Retry delay must be a non-negative number/);
             // @ts-expect-error Testing invalid delay type
-            expect(() => fetchT(`${ baseUrl }/api/data`, { retry: { retries: 1, delay: 'slow' } })).toThrow(/Retry delay must be a number or a function/);
+            expect(() => fetchT(`${ baseUrl }/api/data`, { retry: { retries: 1, delay: 'slow' } })).toThrow('Retry delay must be a number, a function or a { strategy, ... } backoff object but received string');
         });
 
         it('should throw error for invalid retry when', () => {
@@ -903,6 +963,17 @@ describe('fetchT', () => {
             expect(expectNonNull(res.unwrap()).id).toBe(1);
         });
 
+        it('should return FetchTask<FormData> for formData responseType', async () => {
+            const fetchTask = fetchT(`${ baseUrl }/api/form`, {
+                abortable: true,
+                responseType: 'formData',
+            });
+
+            const res = await fetchTask.result;
+            expect(res.isOk()).toBe(true);
+            expect(expectNonNull(res.unwrap()).get('name')).toBe('fetch-t');
+        });
+
         it('should return FetchTask<ReadableStream> for stream responseType', async () => {
             const fetchTask = fetchT(`${ baseUrl }/api/data`, {
                 abortable: true,
@@ -1657,4 +1728,997 @@ describe('fetchT', () => {
             expect(attemptCount).toBe(1);
         });
     });
+
+    // ============ Middleware Tests ============
+    describe('middleware', () => {
+        it('should run middleware in onion order', async () => {
+            const order: string[] = [];
+            const create = (name: string): FetchMiddleware => async (request, next) => {
+                order.push(`${ name }:before`);
+                const response = await next(request);
+                order.push(`${ name }:after`);
+                return response;
+            };
+
+            const res = await fetchT(`${ baseUrl }/api/text`, {
+                middleware: [create('a'), create('b')],
+                responseType: 'text',
+            });
+
+            expect(res.unwrap()).toBe('Hello World');
+            expect(order).toEqual(['a:before', 'b:before', 'b:after', 'a:after']);
+        });
+
+        it('should allow middleware to rewrite the request', async () => {
+            let receivedHeader: string | null = null;
+            server.use(
+                http.get(`${baseUrl}/api/rewritten`, ({ request }) => {
+                    receivedHeader = request.headers.get('X-Signed');
+                    return new HttpResponse('rewritten');
+                }),
+            );
+
+            const res = await fetchT(`${ baseUrl }/api/text`, {
+                middleware: [
+                    (request, next) => {
+                        const headers = new Headers(request.headers);
+                        headers.set('X-Signed', 'yes');
+                        return next(new Request(`${ baseUrl }/api/rewritten`, { headers, signal: request.signal }));
+                    },
+                ],
+                responseType: 'text',
+            });
+
+            expect(res.unwrap()).toBe('rewritten');
+            expect(receivedHeader).toBe('yes');
+        });
+
+        it('should allow middleware to short-circuit with a synthetic response', async () => {
+            const res = await fetchT<{ cached: boolean; }>('http://unreachable.test/api', {
+                middleware: [() => Response.json({ cached: true })],
+                responseType: 'json',
+            });
+
+            expect(res.unwrap()).toEqual({ cached: true });
+        });
+
+        it('should allow middleware to replace the response before parsing', async () => {
+            const res = await fetchT(`${ baseUrl }/api/404`, {
+                middleware: [
+                    async (request, next) => {
+                        const response = await next(request);
+                        return response.status === 404 ? new Response('fallback') : response;
+                    },
+                ],
+                responseType: 'text',
+            });
+
+            expect(res.unwrap()).toBe('fallback');
+        });
+
+        it('should return FetchError when middleware returns a non-ok response', async () => {
+            const res = await fetchT(`${ baseUrl }/api/text`, {
+                middleware: [() => new Response(null, { status: 418, statusText: 'I am a teapot' })],
+            });
+
+            expect(res.unwrapErr()).toBeInstanceOf(FetchError);
+            expect((res.unwrapErr() as FetchError).status).toBe(418);
+        });
+
+        it('should return Err when middleware throws', async () => {
+            const res = await fetchT(`${ baseUrl }/api/text`, {
+                middleware: [
+                    () => {
+                        throw new Error('Middleware failure');
+                    },
+                ],
+            });
+
+            expect(res.isErr()).toBe(true);
+            expect(res.unwrapErr().message).toBe('Middleware failure');
+        });
+
+        it('should run middleware once per retry attempt', async () => {
+            let middlewareCalls = 0;
+            let attemptCount = 0;
+            server.use(
+                http.get(`${baseUrl}/api/middleware-retry`, () => {
+                    attemptCount++;
+                    if (attemptCount < 3) {
+                        return HttpResponse.error();
+                    }
+                    return new HttpResponse('ok');
+                }),
+            );
+
+            const res = await fetchT(`${ baseUrl }/api/middleware-retry`, {
+                retry: 3,
+                middleware: [
+                    (request, next) => {
+                        middlewareCalls++;
+                        return next(request);
+                    },
+                ],
+                responseType: 'text',
+            });
+
+            expect(res.unwrap()).toBe('ok');
+            expect(middlewareCalls).toBe(3);
+        });
+
+        it('should throw TypeError for invalid middleware', () => {
+            expect(() => fetchT(`${ baseUrl }/api/text`, {
+                middleware: 'invalid' as unknown as FetchMiddleware[],
+            })).toThrow('middleware must be an array of functions');
+            expect(() => fetchT(`${ baseUrl }/api/text`, {
+                middleware: [null as unknown as FetchMiddleware],
+            })).toThrow(TypeError);
+        });
+    });
+
+    // ============ Upload Progress Tests ============
+    describe('upload progress', () => {
+        function useUploadEcho(): void {
+            server.use(
+                http.post(`${baseUrl}/api/upload`, async ({ request }) => {
+                    const body = await request.text();
+                    return HttpResponse.json({
+                        body,
+                        contentType: request.headers.get('content-type'),
+                    });
+                }),
+            );
+        }
+
+        interface UploadEcho {
+            body: string;
+            contentType: string | null;
+        }
+
+        it('should report upload progress for string body', async () => {
+            useUploadEcho();
+            const progress: FetchProgress[] = [];
+
+            const res = await fetchT<UploadEcho>(`${ baseUrl }/api/upload`, {
+                method: 'POST',
+                body: 'Hello Upload',
+                responseType: 'json',
+                onUploadProgress: (result) => {
+                    result.inspect(p => progress.push(p));
+                },
+            });
+
+            const echo = expectNonNull(res.unwrap());
+            expect(echo.body).toBe('Hello Upload');
+            expect(echo.contentType).toBe('text/plain;charset=UTF-8');
+            expect(progress.length).toBeGreaterThan(0);
+            expect(progress[progress.length - 1]).toEqual({ totalByteLength: 12, completedByteLength: 12 });
+        });
+
+        it('should report upload progress for Blob, ArrayBuffer and typed array bodies', async () => {
+            useUploadEcho();
+            const bodies: BodyInit[] = [
+                new Blob(['blob body'], { type: 'application/x-custom' }),
+                new TextEncoder().encode('typed body').buffer,
+                new TextEncoder().encode('typed body'),
+            ];
+
+            for (const body of bodies) {
+                let last: FetchProgress | undefined;
+                const res = await fetchT<UploadEcho>(`${ baseUrl }/api/upload`, {
+                    method: 'POST',
+                    body,
+                    responseType: 'json',
+                    onUploadProgress: (result) => {
+                        last = result.unwrap();
+                    },
+                });
+
+                const echo = expectNonNull(res.unwrap());
+                expect(last?.completedByteLength).toBe(echo.body.length);
+                expect(last?.totalByteLength).toBe(echo.body.length);
+            }
+        });
+
+        it('should keep Blob content type and explicit Content-Type header', async () => {
+            useUploadEcho();
+
+            const res = await fetchT<UploadEcho>(`${ baseUrl }/api/upload`, {
+                method: 'POST',
+                body: new Blob(['{}'], { type: 'application/x-custom' }),
+                responseType: 'json',
+                onUploadProgress: () => {},
+            });
+            expect(expectNonNull(res.unwrap()).contentType).toBe('application/x-custom');
+
+            const res2 = await fetchT<UploadEcho>(`${ baseUrl }/api/upload`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: '{}',
+                responseType: 'json',
+                onUploadProgress: () => {},
+            });
+            expect(expectNonNull(res2.unwrap()).contentType).toBe('application/json');
+        });
+
+        it('should keep multipart boundary for FormData body', async () => {
+            let fieldValue: FormDataEntryValue | null = null;
+            server.use(
+                http.post(`${baseUrl}/api/upload-form`, async ({ request }) => {
+                    const form = await request.formData();
+                    fieldValue = form.get('name');
+                    return new HttpResponse('ok');
+                }),
+            );
+
+            const form = new FormData();
+            form.append('name', 'fetch-t');
+            let last: FetchProgress | undefined;
+
+            const res = await fetchT(`${ baseUrl }/api/upload-form`, {
+                method: 'POST',
+                body: form,
+                responseType: 'text',
+                onUploadProgress: (result) => {
+                    last = result.unwrap();
+                },
+            });
+
+            expect(res.unwrap()).toBe('ok');
+            expect(fieldValue).toBe('fetch-t');
+            expect(last?.completedByteLength).toBe(last?.totalByteLength);
+        });
+
+        it('should report Err for ReadableStream body with unknown size', async () => {
+            useUploadEcho();
+            const errors: Error[] = [];
+            let okCount = 0;
+
+            const stream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(new TextEncoder().encode('streamed'));
+                    controller.close();
+                },
+            });
+
+            const res = await fetchT<UploadEcho>(`${ baseUrl }/api/upload`, {
+                method: 'POST',
+                body: stream,
+                responseType: 'json',
+                onUploadProgress: (result) => {
+                    result
+                        .inspect(() => okCount++)
+                        .inspectErr(err => errors.push(err));
+                },
+            });
+
+            expect(expectNonNull(res.unwrap()).body).toBe('streamed');
+            expect(errors.length).toBe(1);
+            expect(errors[0].message).toBe('Unknown upload body size for ReadableStream');
+            expect(okCount).toBe(0);
+        });
+
+        it('should re-create the upload stream on every retry attempt', async () => {
+            let attemptCount = 0;
+            const receivedBodies: string[] = [];
+            server.use(
+                http.post(`${baseUrl}/api/upload-retry`, async ({ request }) => {
+                    attemptCount++;
+                    receivedBodies.push(await request.text());
+                    if (attemptCount < 2) {
+                        return new HttpResponse(null, { status: 503, statusText: 'Service Unavailable' });
+                    }
+                    return new HttpResponse('ok');
+                }),
+            );
+
+            const completed: number[] = [];
+
+            const res = await fetchT(`${ baseUrl }/api/upload-retry`, {
+                method: 'POST',
+                body: 'retry body',
+                retry: { retries: 2, when: [503] },
+                responseType: 'text',
+                onUploadProgress: (result) => {
+                    result.inspect(p => completed.push(p.completedByteLength));
+                },
+            });
+
+            expect(res.unwrap()).toBe('ok');
+            expect(receivedBodies).toEqual(['retry body', 'retry body']);
+            // Each attempt reports progress from zero up to the full length
+            expect(completed.filter(n => n === 10).length).toBe(2);
+        });
+
+        it('should ignore errors thrown by onUploadProgress', async () => {
+            useUploadEcho();
+
+            const res = await fetchT<UploadEcho>(`${ baseUrl }/api/upload`, {
+                method: 'POST',
+                body: 'data',
+                responseType: 'json',
+                onUploadProgress: () => {
+                    throw new Error('Callback error');
+                },
+            });
+
+            expect(expectNonNull(res.unwrap()).body).toBe('data');
+        });
+
+        it('should not wrap request without body', async () => {
+            let called = false;
+
+            const res = await fetchT(`${ baseUrl }/api/text`, {
+                responseType: 'text',
+                onUploadProgress: () => {
+                    called = true;
+                },
+            });
+
+            expect(res.unwrap()).toBe('Hello World');
+            expect(called).toBe(false);
+        });
+
+        it('should throw TypeError for invalid onUploadProgress', () => {
+            expect(() => fetchT(`${ baseUrl }/api/upload`, {
+                onUploadProgress: 'invalid' as unknown as () => void,
+            })).toThrow('onUploadProgress callback must be a function but received string');
+        });
+    });
+
+    // ============ JSON Body Tests ============
+    describe('json body', () => {
+        interface Echo {
+            body: unknown;
+            contentType: string | null;
+            accept: string | null;
+        }
+
+        function useJsonEcho(): void {
+            server.use(
+                http.post(`${baseUrl}/api/json-echo`, async ({ request }) => {
+                    return HttpResponse.json({
+                        body: await request.json(),
+                        contentType: request.headers.get('content-type'),
+                        accept: request.headers.get('accept'),
+                    });
+                }),
+            );
+        }
+
+        it('should serialize json and set Content-Type and Accept headers', async () => {
+            useJsonEcho();
+
+            const res = await fetchT<Echo, { name: string; tags: string[]; }>(`${ baseUrl }/api/json-echo`, {
+                method: 'POST',
+                json: { name: 'fetch-t', tags: ['a', 'b'] },
+                responseType: 'json',
+            });
+
+            const echo = expectNonNull(res.unwrap());
+            expect(echo.body).toEqual({ name: 'fetch-t', tags: ['a', 'b'] });
+            expect(echo.contentType).toBe('application/json');
+            expect(echo.accept).toBe('application/json');
+        });
+
+        it('should not override existing Content-Type and Accept headers', async () => {
+            useJsonEcho();
+
+            const res = await fetchT<Echo>(`${ baseUrl }/api/json-echo`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/merge-patch+json',
+                    Accept: 'application/vnd.api+json',
+                },
+                json: { id: 1 },
+                responseType: 'json',
+            });
+
+            const echo = expectNonNull(res.unwrap());
+            expect(echo.contentType).toBe('application/merge-patch+json');
+            expect(echo.accept).toBe('application/vnd.api+json');
+        });
+
+        it('should serialize falsy json values', async () => {
+            useJsonEcho();
+
+            for (const value of [null, 0, false, '']) {
+                const res = await fetchT<Echo>(`${ baseUrl }/api/json-echo`, {
+                    method: 'POST',
+                    json: value,
+                    responseType: 'json',
+                });
+                expect(expectNonNull(res.unwrap()).body).toBe(value);
+            }
+        });
+
+        it('should throw TypeError when both json and body are provided', () => {
+            expect(() => fetchT(`${ baseUrl }/api/json-echo`, {
+                method: 'POST',
+                json: { id: 1 },
+                body: '{}',
+            })).toThrow(TypeError);
+            expect(() => fetchT(`${ baseUrl }/api/json-echo`, {
+                method: 'POST',
+                json: { id: 1 },
+                body: '{}',
+            })).toThrow('json and body cannot be used together');
+        });
+
+        it('should throw when json cannot be serialized', () => {
+            expect(() => fetchT(`${ baseUrl }/api/json-echo`, {
+                method: 'POST',
+                json: { big: 1n },
+            })).toThrow(TypeError);
+        });
+    });
+
+    // ============ Query Parameter Tests ============
+    describe('query', () => {
+        function useSearchEcho(): void {
+            server.use(
+                http.get(`${baseUrl}/api/search`, ({ request }) => {
+                    return new HttpResponse(new URL(request.url).search);
+                }),
+            );
+        }
+
+        async function getSearch(url: string | URL, init: Pick<FetchInit, 'query' | 'queryArrayFormat' | 'querySerializer'>): Promise<string> {
+            const res = await fetchT(url, { ...init, responseType: 'text' });
+            return decodeURIComponent(res.unwrap());
+        }
+
+        it('should serialize scalar values and skip undefined and null', async () => {
+            useSearchEcho();
+
+            const search = await getSearch(`${ baseUrl }/api/search`, {
+                query: {
+                    str: 'a b',
+                    num: 1,
+                    bool: false,
+                    big: 10n,
+                    date: new Date('2026-01-02T03:04:05.000Z'),
+                    none: undefined,
+                    empty: null,
+                },
+            });
+
+            expect(search).toBe('?str=a+b&num=1&bool=false&big=10&date=2026-01-02T03:04:05.000Z');
+        });
+
+        it('should serialize arrays with all formats', async () => {
+            useSearchEcho();
+            const query: FetchQuery = { ids: [1, null, 2, undefined, 3] };
+
+            expect(await getSearch(`${ baseUrl }/api/search`, { query })).toBe('?ids=1&ids=2&ids=3');
+            expect(await getSearch(`${ baseUrl }/api/search`, { query, queryArrayFormat: 'repeat' })).toBe('?ids=1&ids=2&ids=3');
+            expect(await getSearch(`${ baseUrl }/api/search`, { query, queryArrayFormat: 'brackets' })).toBe('?ids[]=1&ids[]=2&ids[]=3');
+            expect(await getSearch(`${ baseUrl }/api/search`, { query, queryArrayFormat: 'comma' })).toBe('?ids=1,2,3');
+            expect(await getSearch(`${ baseUrl }/api/search`, { query, queryArrayFormat: 'index' })).toBe('?ids[0]=1&ids[1]=2&ids[2]=3');
+        });
+
+        it('should skip empty arrays with comma format', async () => {
+            useSearchEcho();
+
+            expect(await getSearch(`${ baseUrl }/api/search`, {
+                query: { ids: [], q: 'x' },
+                queryArrayFormat: 'comma',
+            })).toBe('?q=x');
+        });
+
+        it('should preserve existing search params and replace same-name params', async () => {
+            useSearchEcho();
+
+            const search = await getSearch(`${ baseUrl }/api/search?lang=en&page=1&page=9`, {
+                query: { page: 2, size: 10 },
+            });
+
+            expect(search).toBe('?lang=en&page=2&size=10');
+        });
+
+        it('should not mutate URL object passed by caller', async () => {
+            useSearchEcho();
+            const url = new URL(`${ baseUrl }/api/search?a=1`);
+
+            expect(await getSearch(url, { query: { b: 2 } })).toBe('?a=1&b=2');
+            expect(url.search).toBe('?a=1');
+        });
+
+        it('should use custom querySerializer', async () => {
+            useSearchEcho();
+
+            const search = await getSearch(`${ baseUrl }/api/search?keep=1`, {
+                query: { filter: ['x', 'y'] },
+                queryArrayFormat: 'index',
+                querySerializer: (query) => `filter=${ (query['filter'] as string[]).join('|') }`,
+            });
+
+            expect(search).toBe('?keep=1&filter=x|y');
+        });
+
+        it('should throw TypeError for invalid query options', () => {
+            expect(() => fetchT(`${ baseUrl }/api/search`, {
+                query: 'a=1' as unknown as FetchQuery,
+            })).toThrow('query must be an object but received string');
+            expect(() => fetchT(`${ baseUrl }/api/search`, {
+                query: [] as unknown as FetchQuery,
+            })).toThrow('query must be an object but received array');
+            expect(() => fetchT(`${ baseUrl }/api/search`, {
+                query: {},
+                queryArrayFormat: 'json' as 'repeat',
+            })).toThrow('queryArrayFormat must be one of repeat, brackets, comma, index but received json');
+            expect(() => fetchT(`${ baseUrl }/api/search`, {
+                query: {},
+                querySerializer: 'invalid' as unknown as () => string,
+            })).toThrow('querySerializer must be a function but received string');
+        });
+    });
+
+    // ============ Schema Validation Tests ============
+    describe('schema validation', () => {
+        interface Data {
+            id: number;
+            title: string;
+        }
+
+        // Minimal Standard Schema implementation
+        function createDataSchema(async = false): FetchStandardSchema<Data> {
+            const validate = (value: unknown) => {
+                const data = value as Partial<Data> | null;
+                if (typeof data?.id === 'number' && typeof data.title === 'string') {
+                    return { value: { id: data.id, title: data.title } };
+                }
+                return { issues: [{ message: 'Invalid data', path: ['id'] }] };
+            };
+
+            return {
+                '~standard': {
+                    version: 1,
+                    vendor: 'test',
+                    validate: async ? (value: unknown) => Promise.resolve(validate(value)) : validate,
+                },
+            };
+        }
+
+        it('should validate and infer type with Standard Schema', async () => {
+            const res: IOResult<Data> = await fetchT(`${ baseUrl }/api/data`, {
+                responseType: 'json',
+                schema: createDataSchema(),
+            });
+
+            expect(res.unwrap()).toEqual({ id: 1, title: 'Test Data' });
+        });
+
+        it('should support async Standard Schema validators and FetchTask', async () => {
+            const task: FetchTask<Data> = fetchT(`${ baseUrl }/api/data`, {
+                abortable: true,
+                responseType: 'json',
+                schema: createDataSchema(true),
+            });
+
+            expect((await task.result).unwrap().title).toBe('Test Data');
+        });
+
+        it('should return FetchValidationError with issues on failure', async () => {
+            const res = await fetchT(`${ baseUrl }/api/204`, {
+                responseType: 'json',
+                schema: createDataSchema(),
+            });
+
+            const err = res.unwrapErr();
+            expect(err).toBeInstanceOf(FetchValidationError);
+            expect(err.name).toBe('FetchValidationError');
+            expect(err.message).toBe('Response validation failed: Invalid data');
+            expect((err as FetchValidationError).issues).toEqual([{ message: 'Invalid data', path: ['id'] }]);
+        });
+
+        it('should validate with a plain function', async () => {
+            const isData: FetchSchema<Data> = (data) => {
+                return typeof (data as Data).id === 'number'
+                    ? Ok(data as Data)
+                    : Err(new Error('Expected data'));
+            };
+
+            const ok = await fetchT(`${ baseUrl }/api/data`, {
+                responseType: 'json',
+                schema: isData,
+            });
+            expect(ok.unwrap().id).toBe(1);
+
+            server.use(
+                http.get(`${baseUrl}/api/data`, () => HttpResponse.json({ id: 'x' })),
+            );
+
+            const res = await fetchT(`${ baseUrl }/api/data`, {
+                responseType: 'json',
+                schema: isData,
+            });
+            const err = res.unwrapErr() as FetchValidationError;
+            expect(err).toBeInstanceOf(FetchValidationError);
+            expect(err.issues).toEqual([{ message: 'Expected data' }]);
+            expect((err.cause as Error).message).toBe('Expected data');
+        });
+
+        it('should not retry validation errors by default', async () => {
+            let attemptCount = 0;
+            server.use(
+                http.get(`${baseUrl}/api/schema-retry`, () => {
+                    attemptCount++;
+                    return HttpResponse.json({ id: 'x' });
+                }),
+            );
+
+            const res = await fetchT(`${ baseUrl }/api/schema-retry`, {
+                responseType: 'json',
+                retry: 2,
+                schema: createDataSchema(),
+            });
+
+            expect(res.unwrapErr()).toBeInstanceOf(FetchValidationError);
+            expect(attemptCount).toBe(1);
+        });
+
+        it('should return Err when validator throws', async () => {
+            const res = await fetchT(`${ baseUrl }/api/data`, {
+                responseType: 'json',
+                schema: () => {
+                    throw new Error('Validator crashed');
+                },
+            });
+
+            expect(res.unwrapErr().message).toBe('Validator crashed');
+        });
+
+        it('should throw TypeError for invalid schema options', () => {
+            expect(() => fetchT(`${ baseUrl }/api/data`, {
+                responseType: 'json',
+                schema: {} as FetchSchema<unknown>,
+            })).toThrow('schema must be a Standard Schema validator or a function');
+            expect(() => fetchT(`${ baseUrl }/api/data`, {
+                responseType: 'text',
+                schema: createDataSchema(),
+            })).toThrow('schema can only be used with responseType json but received text');
+        });
+    });
+
+    // ============ Request Deduplication Tests ============
+    describe('dedupe', () => {
+        function useCountedEndpoint(delayMs = 50): { count: () => number; sharedSignals: AbortSignal[]; } {
+            let count = 0;
+            const sharedSignals: AbortSignal[] = [];
+            server.use(
+                http.all(`${baseUrl}/api/dedupe`, async ({ request }) => {
+                    count++;
+                    sharedSignals.push(request.signal);
+                    await new Promise(resolve => setTimeout(resolve, delayMs));
+                    return new HttpResponse(`response ${ count }`);
+                }),
+            );
+            return { count: () => count, sharedSignals };
+        }
+
+        it('should coalesce concurrent identical requests', async () => {
+            const { count } = useCountedEndpoint();
+
+            const [a, b, c] = await Promise.all([
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text' }),
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text' }),
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text' }),
+            ]);
+
+            expect(count()).toBe(1);
+            expect(a.unwrap()).toBe('response 1');
+            expect(b.unwrap()).toBe('response 1');
+            expect(c.unwrap()).toBe('response 1');
+        });
+
+        it('should deliver independent Response objects', async () => {
+            useCountedEndpoint();
+
+            const [a, b] = await Promise.all([
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true }),
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true }),
+            ]);
+
+            const resA = a.unwrap();
+            const resB = b.unwrap();
+            expect(resA).not.toBe(resB);
+            expect(await resA.text()).toBe('response 1');
+            expect(await resB.text()).toBe('response 1');
+        });
+
+        it('should not coalesce requests with different responseType, headers or method', async () => {
+            const { count } = useCountedEndpoint();
+
+            await Promise.all([
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text' }),
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'blob' }),
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text', headers: { 'X-Id': '1' } }),
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text', method: 'POST' }),
+                fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text', method: 'POST' }),
+            ]);
+
+            expect(count()).toBe(5);
+        });
+
+        it('should not coalesce sequential requests', async () => {
+            const { count } = useCountedEndpoint(0);
+
+            await fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text' });
+            await fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text' });
+
+            expect(count()).toBe(2);
+        });
+
+        it('should keep the shared request alive while other callers wait', async () => {
+            const { count, sharedSignals } = useCountedEndpoint();
+
+            const task = fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, abortable: true, responseType: 'text' });
+            const other = fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text' });
+
+            await new Promise(resolve => setTimeout(resolve, 10));
+            task.abort();
+
+            const [aborted, result] = await Promise.all([task.result, other]);
+
+            expect((aborted.unwrapErr()).name).toBe(ABORT_ERROR);
+            expect(result.unwrap()).toBe('response 1');
+            expect(count()).toBe(1);
+            expect(sharedSignals[0].aborted).toBe(false);
+        });
+
+        it('should cancel the shared request once every caller has aborted', async () => {
+            const { count, sharedSignals } = useCountedEndpoint();
+
+            const task1 = fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, abortable: true, responseType: 'text' });
+            const task2 = fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, abortable: true, responseType: 'text' });
+
+            await new Promise(resolve => setTimeout(resolve, 10));
+            task1.abort();
+            task2.abort('done');
+
+            const [res1, res2] = await Promise.all([task1.result, task2.result]);
+
+            expect(res1.unwrapErr().name).toBe(ABORT_ERROR);
+            expect(res2.unwrapErr().message).toBe('done');
+            expect(count()).toBe(1);
+            expect(sharedSignals[0].aborted).toBe(true);
+
+            // A new request is sent after the shared one was cancelled
+            const res3 = await fetchT(`${ baseUrl }/api/dedupe`, { dedupe: true, responseType: 'text' });
+            expect(res3.unwrap()).toBe('response 2');
+        });
+
+        it('should reject callers whose signal is already aborted', async () => {
+            useCountedEndpoint();
+            const controller = new AbortController();
+            controller.abort(new Error('Pre-aborted'));
+
+            const res = await fetchT(`${ baseUrl }/api/dedupe`, {
+                dedupe: true,
+                signal: controller.signal,
+                responseType: 'text',
+            });
+
+            expect(res.unwrapErr().message).toBe('Pre-aborted');
+        });
+
+        it('should deliver network errors to every caller', async () => {
+            let count = 0;
+            server.use(
+                http.get(`${baseUrl}/api/dedupe-error`, () => {
+                    count++;
+                    return HttpResponse.error();
+                }),
+            );
+
+            const results = await Promise.all([
+                fetchT(`${ baseUrl }/api/dedupe-error`, { dedupe: true }),
+                fetchT(`${ baseUrl }/api/dedupe-error`, { dedupe: true }),
+            ]);
+
+            expect(count).toBe(1);
+            expect(results.every(res => res.isErr())).toBe(true);
+        });
+
+        it('should throw TypeError for invalid dedupe', () => {
+            expect(() => fetchT(`${ baseUrl }/api/dedupe`, {
+                dedupe: 'yes' as unknown as boolean,
+            })).toThrow('dedupe must be a boolean but received string');
+        });
+    });
+
+    // ============ Retry-After Tests ============
+    describe('Retry-After and rate-limit headers', () => {
+        function useRateLimited(headers: Record<string, string>, status = 429): { attempts: () => number; } {
+            let attempts = 0;
+            server.use(
+                http.get(`${baseUrl}/api/rate-limited`, () => {
+                    attempts++;
+                    if (attempts === 1) {
+                        return new HttpResponse(null, { status, statusText: 'Too Many Requests', headers });
+                    }
+                    return new HttpResponse('ok');
+                }),
+            );
+            return { attempts: () => attempts };
+        }
+
+        async function timeRetry(retry: FetchInit['retry']): Promise<number> {
+            const start = Date.now();
+            const res = await fetchT(`${ baseUrl }/api/rate-limited`, { retry, responseType: 'text' });
+            expect(res.unwrap()).toBe('ok');
+            return Date.now() - start;
+        }
+
+        it('should expose response headers on FetchError', async () => {
+            useRateLimited({ 'Retry-After': '5' });
+
+            const res = await fetchT(`${ baseUrl }/api/rate-limited`);
+            const err = res.unwrapErr() as FetchError;
+
+            expect(err.status).toBe(429);
+            expect(err.headers.get('retry-after')).toBe('5');
+            expect(new FetchError('Not Found', 404).headers).toBeInstanceOf(Headers);
+        });
+
+        it('should wait for Retry-After delay-seconds capped by maxRetryAfter', async () => {
+            const { attempts } = useRateLimited({ 'Retry-After': '3600' });
+
+            const elapsed = await timeRetry({ retries: 1, when: [429], maxRetryAfter: 100 });
+
+            expect(attempts()).toBe(2);
+            expect(elapsed).toBeGreaterThanOrEqual(90);
+            expect(elapsed).toBeLessThan(1000);
+        });
+
+        it('should wait for Retry-After HTTP-date', async () => {
+            useRateLimited({ 'Retry-After': new Date(Date.now() + 60_000).toUTCString() });
+
+            const elapsed = await timeRetry({ retries: 1, when: [429], maxRetryAfter: 100 });
+
+            expect(elapsed).toBeGreaterThanOrEqual(90);
+        });
+
+        it('should not wait for past dates or invalid Retry-After values', async () => {
+            useRateLimited({ 'Retry-After': new Date(Date.now() - 60_000).toUTCString() });
+            expect(await timeRetry({ retries: 1, when: [429] })).toBeLessThan(500);
+
+            useRateLimited({ 'Retry-After': 'soon' });
+            expect(await timeRetry({ retries: 1, when: [429] })).toBeLessThan(500);
+
+            useRateLimited({ 'Retry-After': ' ' });
+            expect(await timeRetry({ retries: 1, when: [429] })).toBeLessThan(500);
+        });
+
+        it('should use the larger of configured delay and Retry-After', async () => {
+            useRateLimited({ 'Retry-After': '0' });
+
+            const elapsed = await timeRetry({ retries: 1, when: [429], delay: 100 });
+
+            expect(elapsed).toBeGreaterThanOrEqual(90);
+        });
+
+        it('should ignore Retry-After when respectRetryAfter is false', async () => {
+            useRateLimited({ 'Retry-After': '3600' }, 503);
+
+            const elapsed = await timeRetry({ retries: 1, when: [503], respectRetryAfter: false });
+
+            expect(elapsed).toBeLessThan(500);
+        });
+
+        it('should honor RateLimit-Reset and X-RateLimit-Reset when enabled', async () => {
+            useRateLimited({ 'RateLimit-Reset': '30' });
+            expect(await timeRetry({ retries: 1, when: [429] })).toBeLessThan(500);
+
+            useRateLimited({ 'RateLimit-Reset': '30' });
+            expect(await timeRetry({ retries: 1, when: [429], respectRateLimitReset: true, maxRetryAfter: 100 })).toBeGreaterThanOrEqual(90);
+
+            // Unix timestamp in seconds
+            useRateLimited({ 'X-RateLimit-Reset': String(Math.ceil(Date.now() / 1000) + 60) });
+            expect(await timeRetry({ retries: 1, when: [429], respectRateLimitReset: true, maxRetryAfter: 100 })).toBeGreaterThanOrEqual(90);
+
+            // Timestamp in the past
+            useRateLimited({ 'X-RateLimit-Reset': '1000000000' });
+            expect(await timeRetry({ retries: 1, when: [429], respectRateLimitReset: true })).toBeLessThan(500);
+
+            // Invalid value
+            useRateLimited({ 'X-RateLimit-Reset': 'later' });
+            expect(await timeRetry({ retries: 1, when: [429], respectRateLimitReset: true })).toBeLessThan(500);
+        });
+
+        it('should pass the error to the delay function', async () => {
+            useRateLimited({ 'X-Wait': '1' });
+            const seen: (string | null)[] = [];
+
+            await timeRetry({
+                retries: 1,
+                when: [429],
+                delay: (_attempt, error) => {
+                    seen.push((error as FetchError).headers.get('x-wait'));
+                    return 0;
+                },
+            });
+
+            expect(seen).toEqual(['1']);
+        });
+
+        it('should throw for invalid maxRetryAfter', () => {
+            expect(() => fetchT(`${ baseUrl }/api/rate-limited`, {
+                retry: { maxRetryAfter: 'long' as unknown as number },
+            })).toThrow('Retry maxRetryAfter must be a number but received string');
+            expect(() => fetchT(`${ baseUrl }/api/rate-limited`, {
+                retry: { maxRetryAfter: -1 },
+            })).toThrow('Retry maxRetryAfter must be a non-negative number but received -1');
+        });
+    });
+
+    describe('backoff strategies', () => {
+        it('should accept a named backoff strategy as retry delay', async () => {
+            let attempts = 0;
+            server.use(
+                http.get(`${ baseUrl }/api/flaky`, () => {
+                    attempts++;
+                    return attempts < 3 ? new HttpResponse(null, { status: 503 }) : HttpResponse.text('ok');
+                }),
+            );
+            const random = vi.fn(() => 0);
+
+            const res = await fetchT(`${ baseUrl }/api/flaky`, {
+                responseType: 'text',
+                retry: { retries: 2, when: [503], delay: { strategy: 'fullJitter', base: 1000, random } },
+            });
+
+            expect(res.unwrap()).toBe('ok');
+            expect(attempts).toBe(3);
+            expect(random).toHaveBeenCalledTimes(2);
+        });
+
+        it('should throw for invalid backoff options', () => {
+            expect(() => fetchT(`${ baseUrl }/api/data`, {
+                retry: { retries: 1, delay: { strategy: 'linear', base: -1 } },
+            })).toThrow('Backoff base must be a non-negative number but received -1');
+        });
+    });
+
+    describe('custom fetch', () => {
+        it('should send every attempt through the given fetch after middleware', async () => {
+            const requests: Request[] = [];
+            const customFetch = vi.fn((input: RequestInfo | URL) => {
+                requests.push(input as Request);
+                return Promise.resolve(requests.length < 2
+                    ? new Response(null, { status: 503 })
+                    : new Response('custom'));
+            });
+
+            const res = await fetchT(`${ baseUrl }/not-handled`, {
+                fetch: customFetch as typeof fetch,
+                middleware: [(request, next) => {
+                    request.headers.set('x-middleware', '1');
+                    return next(request);
+                }],
+                responseType: 'text',
+                retry: { retries: 1, when: [503] },
+            });
+
+            expect(res.unwrap()).toBe('custom');
+            expect(customFetch).toHaveBeenCalledTimes(2);
+            expect(requests.every(request => request.headers.get('x-middleware') === '1')).toBe(true);
+            expect(requests[0].url).toBe(`${ baseUrl }/not-handled`);
+        });
+
+        it('should return errors thrown by the given fetch', async () => {
+            const res = await fetchT(`${ baseUrl }/api/data`, {
+                fetch: () => Promise.reject(new TypeError('offline')),
+            });
+
+            expect(res.unwrapErr().message).toBe('offline');
+        });
+
+        it('should throw for invalid fetch', () => {
+            expect(() => fetchT(`${ baseUrl }/api/data`, {
+                fetch: 'fetch' as unknown as typeof fetch,
+            })).toThrow('fetch must be a function but received string');
+        });
+    });
 });
@@ -0,0 +1,172 @@
+import { delay, http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ABORT_ERROR, createCircuitBreaker, fetchT, TIMEOUT_ERROR } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+
+// Delays in milliseconds for the next requests, one per request in arrival order
+let delays: number[] = [];
+// Requests received by the handlers, with whether they were aborted
+let received: { body: string; aborted: boolean; }[] = [];
+
+const hedgedHandler = async ({ request }: { request: Request; }) => {
+    const entry = { body: await request.text(), aborted: false };
+    const index = received.push(entry) - 1;
+    request.signal.addEventListener('abort', () => {
+        entry.aborted = true;
+    });
+
+    await delay(delays[index] ?? 0);
+
+    return HttpResponse.text(`response ${ index } ${ entry.body }`);
+};
+
+const server = setupServer(
+    http.get(`${baseUrl}/search`, hedgedHandler),
+    http.put(`${baseUrl}/search`, hedgedHandler),
+    http.post(`${baseUrl}/search`, hedgedHandler),
+    http.delete(`${baseUrl}/search`, hedgedHandler),
+    http.get(`${baseUrl}/error`, () => {
+        received.push({ body: '', aborted: false });
+        return HttpResponse.error();
+    }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => {
+    server.resetHandlers();
+    delays = [];
+    received = [];
+});
+afterAll(() => server.close());
+
+describe('hedge', () => {
+    it('should not hedge a request answered before the delay', async () => {
+        delays = [0];
+
+        const result = await fetchT(`${ baseUrl }/search`, { responseType: 'text', hedge: { delay: 100 } });
+
+        expect(result.unwrap()).toBe('response 0 ');
+        await delay(150);
+        expect(received).toHaveLength(1);
+    });
+
+    it('should take the hedged response when the original is slow', async () => {
+        delays = [500, 0];
+        const start = Date.now();
+
+        const result = await fetchT(`${ baseUrl }/search`, { responseType: 'text', hedge: { delay: 50 } });
+
+        expect(result.unwrap()).toBe('response 1 ');
+        expect(Date.now() - start).toBeLessThan(400);
+        expect(received).toHaveLength(2);
+        expect(received[0].aborted).toBe(true);
+    });
+
+    it('should keep the original response when it wins the race', async () => {
+        delays = [80, 500];
+
+        const result = await fetchT(`${ baseUrl }/search`, { responseType: 'text', hedge: { delay: 30 } });
+
+        expect(result.unwrap()).toBe('response 0 ');
+        expect(received).toHaveLength(2);
+        expect(received[1].aborted).toBe(true);
+    });
+
+    it('should send up to maxHedges duplicates', async () => {
+        delays = [500, 500, 0];
+
+        const result = await fetchT(`${ baseUrl }/search`, { responseType: 'text', hedge: { delay: 30, maxHedges: 2 } });
+
+        expect(result.unwrap()).toBe('response 2 ');
+        expect(received).toHaveLength(3);
+        expect(received.slice(0, 2).every(entry => entry.aborted)).toBe(true);
+    });
+
+    it('should send the request body with every duplicate', async () => {
+        delays = [500, 0];
+
+        const result = await fetchT(`${ baseUrl }/search`, { method: 'PUT', body: 'payload', responseType: 'text', hedge: { delay: 30 } });
+
+        expect(result.unwrap()).toBe('response 1 payload');
+        expect(received.map(entry => entry.body)).toEqual(['payload', 'payload']);
+    });
+
+    it('should hedge non-idempotent methods with force', async () => {
+        delays = [500, 0];
+
+        const result = await fetchT(`${ baseUrl }/search`, { method: 'POST', json: { q: 1 }, responseType: 'text', hedge: { delay: 30, force: true } });
+
+        expect(result.unwrap()).toBe('response 1 {"q":1}');
+    });
+
+    it('should fail once every request has failed and retry the attempt', async () => {
+        const result = await fetchT(`${ baseUrl }/error`, { hedge: { delay: 30 }, retry: 1 });
+
+        expect(result.isErr()).toBe(true);
+        await delay(50);
+        // Each attempt fails before its hedge is due
+        expect(received).toHaveLength(2);
+    });
+
+    it('should apply the timeout to all duplicates together', async () => {
+        delays = [500, 500];
+
+        const result = await fetchT(`${ baseUrl }/search`, { hedge: { delay: 30 }, timeout: 100 });
+
+        expect(result.unwrapErr().name).toBe(TIMEOUT_ERROR);
+        expect(received).toHaveLength(2);
+        await delay(10);
+        expect(received.every(entry => entry.aborted)).toBe(true);
+    });
+
+    it('should abort every duplicate on user abort', async () => {
+        delays = [500, 500];
+
+        const task = fetchT(`${ baseUrl }/search`, { abortable: true, hedge: { delay: 30 } });
+        setTimeout(() => task.abort(), 80);
+
+        const result = await task.result;
+
+        expect(result.unwrapErr().name).toBe(ABORT_ERROR);
+        expect(received).toHaveLength(2);
+        await delay(10);
+        expect(received.every(entry => entry.aborted)).toBe(true);
+    });
+
+    it('should not hedge after an abort before sending', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        const result = await fetchT(`${ baseUrl }/search`, { signal: controller.signal, hedge: { delay: 0 } });
+
+        expect(result.unwrapErr().name).toBe(ABORT_ERROR);
+        expect(received).toHaveLength(0);
+    });
+
+    it('should count a hedged attempt once in the circuit breaker', async () => {
+        delays = [500, 0];
+        const states: string[] = [];
+        const circuitBreaker = createCircuitBreaker({
+            failureThreshold: 1,
+            onStateChange: (_key, _from, to) => states.push(to),
+        });
+
+        const result = await fetchT(`${ baseUrl }/search`, { circuitBreaker, hedge: { delay: 30 } });
+
+        expect(result.isOk()).toBe(true);
+        expect(states).toEqual([]);
+    });
+
+    it('should throw for invalid hedge options', () => {
+        expect(() => fetchT(`${ baseUrl }/search`, { hedge: 1 as never })).toThrow('hedge must be an object but received number');
+        expect(() => fetchT(`${ baseUrl }/search`, { hedge: {} as never })).toThrow('hedge delay must be a number but received undefined');
+        expect(() => fetchT(`${ baseUrl }/search`, { hedge: { delay: -1 } })).toThrow('hedge delay must be a non-negative number but received -1');
+        expect(() => fetchT(`${ baseUrl }/search`, { hedge: { delay: 10, maxHedges: 1.5 } })).toThrow('hedge maxHedges must be an integer but received 1.5');
+        expect(() => fetchT(`${ baseUrl }/search`, { hedge: { delay: 10, maxHedges: 0 } })).toThrow('hedge maxHedges must be greater than 0 but received 0');
+        expect(() => fetchT(`${ baseUrl }/search`, { hedge: { delay: 10, force: 'yes' as never } })).toThrow('hedge force must be a boolean but received string');
+        expect(() => fetchT(`${ baseUrl }/search`, { method: 'POST', hedge: { delay: 10 } })).toThrow('hedge can only be used with idempotent methods unless hedge force is true but received POST');
+        expect(() => fetchT(`${ baseUrl }/search`, { method: 'delete', hedge: { delay: 10 } })).not.toThrow();
+    });
+});
@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest';
+import { createFetchT, createHmacSigner, createHttpMessageSigner, fetchT } from '../src/mod.ts';
+import { createMockFetch } from '../src/testing.ts';
+
+const now = () => new Date('2026-10-19T08:00:00Z');
+const created = 1792396800;
+
+const encoder = new TextEncoder();
+
+async function sign(algorithm: string, key: string, data: string, encoding: 'hex' | 'base64' = 'hex'): Promise<string> {
+    const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: algorithm }, false, ['sign']);
+    return encode(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)), encoding);
+}
+
+async function hash(algorithm: string, data: string): Promise<string> {
+    return encode(await crypto.subtle.digest(algorithm, encoder.encode(data)), 'hex');
+}
+
+function encode(buffer: ArrayBuffer, encoding: 'hex' | 'base64'): string {
+    const bytes = new Uint8Array(buffer);
+    return encoding === 'hex'
+        ? Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+        : btoa(String.fromCharCode(...bytes));
+}
+
+describe('createHmacSigner', () => {
+    it('should sign the default canonical string', async () => {
+        const signer = createHmacSigner({ key: 'secret', headers: ['Content-Type', 'X-Missing'], now });
+
+        const signed = await signer(new Request('https://api.example.com/v1/orders?page=2', {
+            method: 'POST',
+            headers: { 'Content-Type': ' application/json ' },
+            body: '{"id":1}',
+        }));
+
+        const canonical = [
+            'POST',
+            '/v1/orders?page=2',
+            'content-type:application/json',
+            'x-missing:',
+            String(created),
+            await hash('SHA-256', '{"id":1}'),
+        ].join('\n');
+
+        expect(signed.headers.get('x-timestamp')).toBe(String(created));
+        expect(signed.headers.get('x-signature')).toBe(await sign('SHA-256', 'secret', canonical));
+        expect(await signed.text()).toBe('{"id":1}');
+    });
+
+    it('should hash an empty body for requests without body', async () => {
+        const signer = createHmacSigner({ key: 'secret', now });
+
+        const signed = await signer(new Request('https://api.example.com/'));
+
+        const canonical = ['GET', '/', String(created), await hash('SHA-256', '')].join('\n');
+        expect(signed.headers.get('x-signature')).toBe(await sign('SHA-256', 'secret', canonical));
+    });
+
+    it('should support SHA-512, base64, custom headers, timestamps and canonicalization', async () => {
+        const key = new TextEncoder().encode('binary secret');
+        const signer = createHmacSigner({
+            key,
+            algorithm: 'SHA-512',
+            encoding: 'base64',
+            signatureHeader: 'X-Partner-Signature',
+            timestampHeader: 'X-Partner-Timestamp',
+            timestamp: date => date.toISOString(),
+            canonicalize: ({ method, url, timestamp, bodyHash }) => `${ timestamp }|${ method }|${ url.host }|${ bodyHash }`,
+            now,
+        });
+
+        const signed = await signer(new Request('https://partner.example.com/v2/items', { method: 'PUT', body: 'item' }));
+
+        const canonical = `2026-10-19T08:00:00.000Z|PUT|partner.example.com|${ await hash('SHA-512', 'item') }`;
+        expect(signed.headers.get('x-partner-timestamp')).toBe('2026-10-19T08:00:00.000Z');
+        expect(signed.headers.get('x-partner-signature')).toBe(await sign('SHA-512', 'binary secret', canonical, 'base64'));
+        expect(signed.headers.has('x-signature')).toBe(false);
+    });
+
+    it('should sign every attempt with a fresh timestamp', async () => {
+        const mock = createMockFetch();
+        mock.get('https://api.example.com/data', { status: 503 });
+
+        let seconds = created;
+        const result = await fetchT('https://api.example.com/data', {
+            fetch: mock.fetch,
+            sign: createHmacSigner({ key: 'secret', now: () => new Date((seconds++) * 1000) }),
+            retry: { retries: 2, delay: 0, when: [503] },
+        });
+
+        expect(result.isErr()).toBe(true);
+        expect(mock.calls.map(call => call.request.headers.get('x-timestamp'))).toEqual([
+            String(created),
+            String(created + 1),
+            String(created + 2),
+        ]);
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => createHmacSigner({ key: 1 as unknown as string })).toThrow(new TypeError('key must be a string or a BufferSource but received number'));
+        expect(() => createHmacSigner({ key: 'k', algorithm: 'SHA-1' as 'SHA-256' })).toThrow(new TypeError('algorithm must be one of SHA-256, SHA-512 but received SHA-1'));
+        expect(() => createHmacSigner({ key: 'k', headers: [1 as unknown as string] })).toThrow(new TypeError('headers must be an array of strings'));
+        expect(() => createHmacSigner({ key: 'k', encoding: 'hex2' as 'hex' })).toThrow(new TypeError('encoding must be one of hex, base64 but received hex2'));
+        expect(() => createHmacSigner({ key: 'k', signatureHeader: '' })).toThrow(new TypeError('signatureHeader must be a non-empty string but received ""'));
+        expect(() => createHmacSigner({ key: 'k', canonicalize: 'x' as unknown as () => string })).toThrow(new TypeError('canonicalize must be a function but received string'));
+    });
+});
+
+describe('createHttpMessageSigner', () => {
+    // Key, request and signature of RFC 9421, appendix B.2.5
+    const rfcKey = Uint8Array.from(atob('uzvJfB4u3N0Jy4T7NZ75MDVcr8zSTInedJtkgcu46YW4XByzNJjxBdtjUkdJPBtbmHhIDi6pcl8jsasjlTMtDQ=='), char => char.charCodeAt(0));
+
+    const rfcRequest = () => new Request('https://example.com/foo?param=Value&Pet=dog', {
+        method: 'POST',
+        headers: {
+            'Date': 'Tue, 20 Apr 2021 02:07:55 GMT',
+            'Content-Type': 'application/json',
+            'Content-Digest': 'sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:',
+        },
+        body: '{"hello": "world"}',
+    });
+
+    it('should match the hmac-sha256 example of RFC 9421', async () => {
+        const signer = createHttpMessageSigner({
+            key: rfcKey,
+            keyId: 'test-shared-secret',
+            label: 'sig-b25',
+            components: ['date', '@authority', 'content-type'],
+            now: () => new Date(1618884473 * 1000),
+        });
+
+        const signed = await signer(rfcRequest());
+
+        expect(signed.headers.get('signature-input')).toBe('sig-b25=("date" "@authority" "content-type");created=1618884473;keyid="test-shared-secret"');
+        expect(signed.headers.get('signature')).toBe('sig-b25=:pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=:');
+    });
+
+    it('should cover the method, target URI and content digest by default', async () => {
+        const signer = createHttpMessageSigner({ key: 'secret', keyId: 'client', now });
+
+        const signed = await signer(new Request('https://example.com/foo', { method: 'POST', body: '{"hello": "world"}' }));
+
+        const params = `("@method" "@target-uri" "content-digest");created=${ created };keyid="client"`;
+        const base = [
+            '"@method": POST',
+            '"@target-uri": https://example.com/foo',
+            '"content-digest": sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:',
+            `"@signature-params": ${ params }`,
+        ].join('\n');
+
+        expect(signed.headers.get('content-digest')).toBe('sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:');
+        expect(signed.headers.get('signature-input')).toBe(`sig1=${ params }`);
+        expect(signed.headers.get('signature')).toBe(`sig1=:${ await sign('SHA-256', 'secret', base, 'base64') }:`);
+    });
+
+    it('should not cover a content digest for requests without body by default', async () => {
+        const signer = createHttpMessageSigner({ key: 'secret', keyId: 'client', now });
+
+        const signed = await signer(new Request('https://example.com/'));
+
+        expect(signed.headers.has('content-digest')).toBe(false);
+        expect(signed.headers.get('signature-input')).toBe(`sig1=("@method" "@target-uri");created=${ created };keyid="client"`);
+    });
+
+    it('should derive every supported component and add the optional parameters', async () => {
+        const signer = createHttpMessageSigner({
+            key: 'secret',
+            keyId: 'client',
+            algorithm: 'SHA-512',
+            components: ['@method', '@scheme', '@authority', '@request-target', '@path', '@query', 'Content-Digest'],
+            includeAlg: true,
+            expiresIn: 300,
+            nonce: () => 'n-1',
+            tag: 'partner-api',
+            now,
+        });
+
+        const signed = await signer(new Request('https://example.com:8443/a/b', { method: 'PUT', body: '{"hello": "world"}' }));
+
+        const params = `("@method" "@scheme" "@authority" "@request-target" "@path" "@query" "content-digest");created=${ created };expires=${ created + 300 };nonce="n-1";keyid="client";alg="hmac-sha512";tag="partner-api"`;
+        const base = [
+            '"@method": PUT',
+            '"@scheme": https',
+            '"@authority": example.com:8443',
+            '"@request-target": /a/b',
+            '"@path": /a/b',
+            '"@query": ?',
+            '"content-digest": sha-512=:WZDPaVn/7XgHaAy8pmojAkGWoRx2UFChF41A2svX+TaPm+AbwAgBWnrIiYllu7BNNyealdVLvRwEmTHWXvJwew==:',
+            `"@signature-params": ${ params }`,
+        ].join('\n');
+
+        expect(signed.headers.get('signature-input')).toBe(`sig1=${ params }`);
+        expect(signed.headers.get('signature')).toBe(`sig1=:${ await sign('SHA-512', 'secret', base, 'base64') }:`);
+    });
+
+    it('should fail the request when a covered header is missing', async () => {
+        const mock = createMockFetch();
+        mock.get('https://example.com/', { body: 'ok' });
+
+        const api = createFetchT({
+            fetch: mock.fetch,
+            sign: createHttpMessageSigner({ key: 'secret', keyId: 'client', components: ['@method', 'x-request-id'] }),
+        });
+
+        const result = await api('https://example.com/');
+
+        expect(result.unwrapErr().message).toBe('Covered component x-request-id is missing from the request');
+        expect(mock.calls).toHaveLength(0);
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => createHttpMessageSigner({ key: 'k', keyId: '' })).toThrow(new TypeError('keyId must be a non-empty string but received ""'));
+        expect(() => createHttpMessageSigner({ key: 'k', keyId: 'c', tag: '' })).toThrow(new TypeError('tag must be a non-empty string but received ""'));
+        expect(() => createHttpMessageSigner({ key: 'k', keyId: 'c', components: ['@method', ''] })).toThrow(new TypeError('components must be an array of non-empty strings'));
+        expect(() => createHttpMessageSigner({ key: 'k', keyId: 'c', components: ['@status'] })).toThrow(new TypeError('components must only contain the derived components @method, @target-uri, @authority, @scheme, @request-target, @path, @query but received @status'));
+        expect(() => createHttpMessageSigner({ key: 'k', keyId: 'c', expiresIn: 0 })).toThrow(new Error('expiresIn must be a positive number but received 0'));
+        expect(() => createHttpMessageSigner({ key: 'k', keyId: 'c', nonce: 'n' as unknown as () => string })).toThrow(new TypeError('nonce must be a function but received string'));
+        expect(() => createHttpMessageSigner({ key: null as unknown as string, keyId: 'c' })).toThrow(new TypeError('key must be a string or a BufferSource but received null'));
+    });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import { ABORT_ERROR, createFetchT, FetchError, fetchT, TIMEOUT_ERROR } from '../src/mod.ts';
+import { createMockFetch } from '../src/testing.ts';
+
+const baseUrl = 'http://mock.test';
+
+describe('createMockFetch', () => {
+    it('should answer fetchT requests from routes', async () => {
+        const mock = createMockFetch().get(`${ baseUrl }/data`, { json: { ok: true } });
+
+        const res = await fetchT<{ ok: boolean; }>(`${ baseUrl }/data`, { fetch: mock.fetch, responseType: 'json' });
+
+        expect(res.unwrap()).toEqual({ ok: true });
+        expect(mock.calls).toHaveLength(1);
+        expect(mock.calls[0].matched).toBe(true);
+    });
+
+    it('should match by method', async () => {
+        const mock = createMockFetch()
+            .get(`${ baseUrl }/item`, { body: 'get' })
+            .post(`${ baseUrl }/item`, { body: 'post' })
+            .put(`${ baseUrl }/item`, { body: 'put' })
+            .patch(`${ baseUrl }/item`, { body: 'patch' })
+            .delete(`${ baseUrl }/item`, { body: 'delete' });
+
+        for (const method of ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']) {
+            const res = await fetchT(`${ baseUrl }/item`, { fetch: mock.fetch, method, responseType: 'text' });
+            expect(res.unwrap()).toBe(method.toLowerCase());
+        }
+    });
+
+    it('should capture URL pattern parameters', async () => {
+        const mock = createMockFetch()
+            .get('/users/:id/posts/:postId', ({ params }) => ({ json: params }))
+            .get(`${ baseUrl }/files/*`, { body: 'file' })
+            .get(/\/orders\/(?<order>\d+)$/, ({ params }) => ({ body: params['order'] }));
+
+        const api = createFetchT({ baseURL: `${ baseUrl }/`, fetch: mock.fetch });
+
+        expect((await api('users/a%20b/posts/7?draft=1', { responseType: 'json' })).unwrap()).toEqual({ id: 'a b', postId: '7' });
+        expect((await api('files/a/b.txt', { responseType: 'text' })).unwrap()).toBe('file');
+        expect((await api('orders/42', { responseType: 'text' })).unwrap()).toBe('42');
+        expect((await api('users/1', { responseType: 'text' })).isErr()).toBe(true);
+    });
+
+    it('should only match the query string when the pattern has one', async () => {
+        const mock = createMockFetch()
+            .get('/search?q=:term', ({ params }) => ({ body: params['term'] }))
+            .get('/search', { body: 'any' });
+
+        expect((await fetchT(`${ baseUrl }/search?q=fetch`, { fetch: mock.fetch, responseType: 'text' })).unwrap()).toBe('fetch');
+        expect((await fetchT(`${ baseUrl }/search?page=2`, { fetch: mock.fetch, responseType: 'text' })).unwrap()).toBe('any');
+    });
+
+    it('should match by headers, body and URL function', async () => {
+        const mock = createMockFetch()
+            .route({ url: url => url.hostname === 'mock.test', headers: { Authorization: /^Bearer / }, body: /"admin"/ }, { body: 'admin' })
+            .route({ headers: { 'x-mode': 'json' }, body: text => JSON.parse(text).role === 'user' }, { body: 'user' })
+            .route({ body: 'plain' }, { body: 'plain' });
+
+        const send = (headers: Record<string, string>, body: string) => fetchT(`${ baseUrl }/login`, {
+            fetch: mock.fetch,
+            method: 'POST',
+            headers,
+            body,
+            responseType: 'text',
+        });
+
+        expect((await send({ authorization: 'Bearer t' }, '{"role":"admin"}')).unwrap()).toBe('admin');
+        expect((await send({ 'X-Mode': 'json' }, '{"role":"user"}')).unwrap()).toBe('user');
+        expect((await send({}, 'plain')).unwrap()).toBe('plain');
+        expect((await send({}, '{"role":"admin"}')).isErr()).toBe(true);
+        expect(mock.calls.map(call => call.body)).toEqual(['{"role":"admin"}', '{"role":"user"}', 'plain', '{"role":"admin"}']);
+    });
+
+    it('should stop matching a route after times', async () => {
+        const mock = createMockFetch()
+            .route({ url: '/flaky', times: 2 }, { status: 503 })
+            .route('/flaky', { body: 'ok' });
+
+        const res = await fetchT(`${ baseUrl }/flaky`, {
+            fetch: mock.fetch,
+            responseType: 'text',
+            retry: { retries: 2, when: [503] },
+        });
+
+        expect(res.unwrap()).toBe('ok');
+        expect(mock.calls).toHaveLength(3);
+    });
+
+    it('should reject unmatched requests and record them', async () => {
+        const mock = createMockFetch();
+
+        const res = await fetchT(`${ baseUrl }/missing`, { fetch: mock.fetch });
+
+        expect(res.unwrapErr().message).toBe(`No mock route matches GET ${ baseUrl }/missing`);
+        expect(mock.calls[0].matched).toBe(false);
+    });
+
+    it('should return canned Response objects and function results', async () => {
+        const mock = createMockFetch()
+            .get('/response', new Response('as is', { status: 201 }))
+            .get('/async', async ({ url }) => new Response(url.pathname));
+
+        const res = await fetchT(`${ baseUrl }/response`, { fetch: mock.fetch });
+        expect(res.unwrap().status).toBe(201);
+        expect(await res.unwrap().text()).toBe('as is');
+
+        expect((await fetchT(`${ baseUrl }/async`, { fetch: mock.fetch, responseType: 'text' })).unwrap()).toBe('/async');
+    });
+
+    it('should set status, headers and the response url', async () => {
+        const mock = createMockFetch()
+            .get('/missing', { status: 404, statusText: 'Not Found', headers: { 'x-id': '1' } })
+            .route({ method: 'HEAD', url: '/head' }, { body: 'ignored', headers: { 'content-length': '7' } })
+            .get('/empty', { status: 204, body: 'ignored' })
+            .get('/json', { json: null, headers: { 'content-type': 'application/problem+json' } });
+
+        const err = (await fetchT(`${ baseUrl }/missing`, { fetch: mock.fetch })).unwrapErr() as FetchError;
+        expect(err.status).toBe(404);
+        expect(err.message).toBe('Not Found');
+        expect(err.headers.get('x-id')).toBe('1');
+
+        const head = (await fetchT(`${ baseUrl }/head`, { fetch: mock.fetch, method: 'HEAD' })).unwrap();
+        expect(head.body).toBeNull();
+        expect(head.url).toBe(`${ baseUrl }/head`);
+
+        expect((await fetchT(`${ baseUrl }/empty`, { fetch: mock.fetch })).unwrap().body).toBeNull();
+
+        const json = (await fetchT(`${ baseUrl }/json`, { fetch: mock.fetch })).unwrap();
+        expect(json.headers.get('content-type')).toBe('application/problem+json');
+        expect(await json.text()).toBe('null');
+    });
+
+    it('should stream chunks', async () => {
+        const mock = createMockFetch().get('/chunks', {
+            chunks: ['a', new Uint8Array([98]), 'c'],
+            chunkDelay: 5,
+            headers: { 'content-length': '3' },
+        });
+        const received: number[] = [];
+
+        const res = await fetchT(`${ baseUrl }/chunks`, {
+            fetch: mock.fetch,
+            responseType: 'text',
+            onChunk: chunk => received.push(chunk.byteLength),
+        });
+
+        expect(res.unwrap()).toBe('abc');
+        expect(received).toEqual([1, 1, 1]);
+    });
+
+    it('should simulate network errors', async () => {
+        const mock = createMockFetch()
+            .get('/offline', { error: true })
+            .get('/custom', { error: new RangeError('boom') });
+
+        const offline = (await fetchT(`${ baseUrl }/offline`, { fetch: mock.fetch, retry: 1 })).unwrapErr();
+        expect(offline).toBeInstanceOf(TypeError);
+        expect(offline.message).toBe('Failed to fetch');
+        expect(mock.calls).toHaveLength(2);
+
+        expect((await fetchT(`${ baseUrl }/custom`, { fetch: mock.fetch })).unwrapErr()).toBeInstanceOf(RangeError);
+    });
+
+    it('should delay responses and honor timeout and abort', async () => {
+        const mock = createMockFetch().get('/slow', { delay: 100, body: 'slow' });
+
+        const timedOut = await fetchT(`${ baseUrl }/slow`, { fetch: mock.fetch, timeout: 20 });
+        expect(timedOut.unwrapErr().name).toBe(TIMEOUT_ERROR);
+
+        const task = fetchT(`${ baseUrl }/slow`, { fetch: mock.fetch, abortable: true, responseType: 'text' });
+        setTimeout(() => task.abort(), 10);
+        expect((await task.result).unwrapErr().name).toBe(ABORT_ERROR);
+
+        expect((await fetchT(`${ baseUrl }/slow`, { fetch: mock.fetch, responseType: 'text' })).unwrap()).toBe('slow');
+    });
+
+    it('should reject an already aborted request without recording it', async () => {
+        const mock = createMockFetch().get('/data', { body: 'data' });
+
+        const err = await mock.fetch(`${ baseUrl }/data`, { signal: AbortSignal.abort() }).catch((error: unknown) => error);
+
+        expect((err as Error).name).toBe(ABORT_ERROR);
+        expect(mock.calls).toHaveLength(0);
+    });
+
+    it('should error the body stream on abort', async () => {
+        const mock = createMockFetch().get('/chunks', { chunks: ['a', 'b', 'c'], chunkDelay: 50 });
+
+        const task = fetchT(`${ baseUrl }/chunks`, { fetch: mock.fetch, abortable: true, responseType: 'stream' });
+        const stream = (await task.result).unwrap()!;
+        const reader = stream.getReader();
+
+        expect((await reader.read()).value).toEqual(new TextEncoder().encode('a'));
+        task.abort();
+
+        await expect(reader.read()).rejects.toMatchObject({ name: ABORT_ERROR });
+    });
+
+    it('should clear routes and calls on reset', async () => {
+        const mock = createMockFetch().get('/data', { body: 'data' });
+
+        await fetchT(`${ baseUrl }/data`, { fetch: mock.fetch });
+        mock.reset();
+
+        expect(mock.calls).toHaveLength(0);
+        expect((await fetchT(`${ baseUrl }/data`, { fetch: mock.fetch })).isErr()).toBe(true);
+    });
+});
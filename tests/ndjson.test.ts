@@ -0,0 +1,165 @@
+import type { IOResult } from 'happy-rusty';
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ABORT_ERROR, FetchNDJSONError, fetchT } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+const encoder = new TextEncoder();
+
+interface LogEntry {
+    level: string;
+    n: number;
+}
+
+function useChunks(...chunks: (string | Uint8Array)[]): void {
+    server.use(http.get(`${baseUrl}/logs`, () => new HttpResponse(new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const chunk of chunks) {
+                controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+            }
+            controller.close();
+        },
+    }), { headers: { 'Content-Type': 'application/x-ndjson' } })));
+}
+
+async function collect<T>(iterable: AsyncIterable<IOResult<T>>): Promise<IOResult<T>[]> {
+    const items: IOResult<T>[] = [];
+    for await (const item of iterable) {
+        items.push(item);
+    }
+    return items;
+}
+
+const server = setupServer();
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+describe('responseType ndjson', () => {
+    it('should parse one value per line', async () => {
+        useChunks('{"level":"info","n":1}\n{"level":"warn","n":2}\n');
+
+        const res = await fetchT<LogEntry>(`${ baseUrl }/logs`, { responseType: 'ndjson' });
+        const items = await collect(res.unwrap());
+
+        expect(items.map(item => item.unwrap())).toEqual([
+            { level: 'info', n: 1 },
+            { level: 'warn', n: 2 },
+        ]);
+    });
+
+    it('should handle lines split across chunks, CRLF endings and a trailing line without newline', async () => {
+        useChunks('{"n":', '1}\r', '\n{"n":2}\r\n', '\n', '{"n":3}');
+
+        const res = await fetchT<{ n: number; }>(`${ baseUrl }/logs`, { responseType: 'ndjson' });
+
+        expect((await collect(res.unwrap())).map(item => item.unwrap().n)).toEqual([1, 2, 3]);
+    });
+
+    it('should decode multi-byte characters split across chunks', async () => {
+        const bytes = encoder.encode('"你好"\n');
+        useChunks(bytes.slice(0, 2), bytes.slice(2));
+
+        const res = await fetchT<string>(`${ baseUrl }/logs`, { responseType: 'ndjson' });
+
+        expect((await collect(res.unwrap())).map(item => item.unwrap())).toEqual(['你好']);
+    });
+
+    it('should yield malformed lines as errors with their line number and continue', async () => {
+        useChunks('1\n\n{oops}\n2\n');
+
+        const res = await fetchT<number>(`${ baseUrl }/logs`, { responseType: 'ndjson' });
+        const items = await collect(res.unwrap());
+
+        expect(items).toHaveLength(3);
+        expect(items[0].unwrap()).toBe(1);
+        expect(items[2].unwrap()).toBe(2);
+
+        const err = items[1].unwrapErr() as FetchNDJSONError;
+        expect(err).toBeInstanceOf(FetchNDJSONError);
+        expect(err.name).toBe('FetchNDJSONError');
+        expect(err.message).toBe('Invalid JSON at line 3');
+        expect(err.line).toBe(3);
+        expect(err.text).toBe('{oops}');
+        expect(err.cause).toBeInstanceOf(SyntaxError);
+    });
+
+    it('should yield nothing for a response without body', async () => {
+        server.use(http.get(`${baseUrl}/logs`, () => new HttpResponse(null)));
+
+        const res = await fetchT(`${ baseUrl }/logs`, { responseType: 'ndjson' });
+
+        expect(await collect(res.unwrap())).toEqual([]);
+    });
+
+    it('should yield a stream error as the last item', async () => {
+        let pulls = 0;
+        const stream = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                pulls++;
+                if (pulls === 1) {
+                    controller.enqueue(encoder.encode('1\n'));
+                } else {
+                    controller.error(new Error('connection reset'));
+                }
+            },
+        });
+
+        const res = await fetchT<number>(`${ baseUrl }/logs`, {
+            responseType: 'ndjson',
+            middleware: [() => Promise.resolve(new Response(stream))],
+        });
+        const items = await collect(res.unwrap());
+
+        expect(items).toHaveLength(2);
+        expect(items[0].unwrap()).toBe(1);
+        expect(items[1].unwrapErr().message).toBe('connection reset');
+    });
+
+    it('should end with the abort error when the task is aborted', async () => {
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(encoder.encode('1\n'));
+            },
+        });
+        const task = fetchT<number>(`${ baseUrl }/logs`, {
+            abortable: true,
+            responseType: 'ndjson',
+            middleware: [() => Promise.resolve(new Response(stream))],
+        });
+        const iterator = (await task.result).unwrap();
+
+        expect((await iterator.next()).value?.unwrap()).toBe(1);
+        const pending = iterator.next();
+        task.abort();
+
+        const { value } = await pending;
+        expect(value?.unwrapErr().name).toBe(ABORT_ERROR);
+    });
+
+    it('should release the stream when iteration stops early', async () => {
+        let cancelled = false;
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(encoder.encode('1\n2\n'));
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+
+        const res = await fetchT<number>(`${ baseUrl }/logs`, {
+            responseType: 'ndjson',
+            middleware: [() => Promise.resolve(new Response(stream))],
+        });
+
+        for await (const item of res.unwrap()) {
+            expect(item.unwrap()).toBe(1);
+            break;
+        }
+
+        expect(cancelled).toBe(true);
+    });
+});
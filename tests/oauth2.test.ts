@@ -0,0 +1,236 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createFetchT, createOAuth2TokenManager, FetchError, FetchValidationError, OAuth2Error, type OAuth2TokenManagerOptions } from '../src/mod.ts';
+import { createMockFetch, type MockFetchCall } from '../src/testing.ts';
+
+const tokenUrl = 'http://auth.test/oauth/token';
+const apiUrl = 'http://api.test';
+
+/**
+ * Creates a token endpoint issuing `access-1`, `access-2`, ... and rotating refresh tokens.
+ */
+function createTokenEndpoint(expiresIn: number | undefined = 3600) {
+    let issued = 0;
+
+    return createMockFetch().post(tokenUrl, () => {
+        issued += 1;
+        return {
+            json: {
+                access_token: `access-${ issued }`,
+                token_type: 'Bearer',
+                expires_in: expiresIn,
+                refresh_token: `refresh-${ issued }`,
+                scope: 'read',
+            },
+        };
+    });
+}
+
+const params = (call: MockFetchCall) => Object.fromEntries(new URLSearchParams(call.body));
+
+describe('createOAuth2TokenManager', () => {
+    it('should request client_credentials tokens with basic client auth', async () => {
+        const mock = createTokenEndpoint();
+        const manager = createOAuth2TokenManager({
+            tokenUrl,
+            clientId: 'my client',
+            clientSecret: 's3cret:+',
+            scope: ['read', 'write'],
+            params: { audience: 'api' },
+            fetchInit: { fetch: mock.fetch },
+        });
+
+        expect((await manager.getAccessToken()).unwrap()).toBe('access-1');
+
+        const [call] = mock.calls;
+        expect(call.request.headers.get('authorization')).toBe(`Basic ${ btoa('my+client:s3cret%3A%2B') }`);
+        expect(call.request.headers.get('accept')).toBe('application/json');
+        expect(call.request.headers.get('content-type')).toContain('application/x-www-form-urlencoded');
+        expect(params(call)).toEqual({ grant_type: 'client_credentials', scope: 'read write', audience: 'api' });
+    });
+
+    it('should send client credentials in the body', async () => {
+        const mock = createTokenEndpoint();
+        const manager = createOAuth2TokenManager({
+            tokenUrl,
+            clientId: 'client',
+            clientSecret: 'secret',
+            clientAuth: 'body',
+            fetchInit: { fetch: mock.fetch },
+        });
+
+        await manager.getAccessToken();
+
+        expect(mock.calls[0].request.headers.has('authorization')).toBe(false);
+        expect(params(mock.calls[0])).toEqual({ grant_type: 'client_credentials', client_id: 'client', client_secret: 'secret' });
+    });
+
+    it('should send client_id in the body for public clients', async () => {
+        const mock = createTokenEndpoint();
+        const manager = createOAuth2TokenManager({ tokenUrl, clientId: 'public', fetchInit: { fetch: mock.fetch } });
+
+        await manager.getAccessToken();
+
+        expect(params(mock.calls[0])).toEqual({ grant_type: 'client_credentials', client_id: 'public' });
+    });
+
+    it('should cache tokens until shortly before they expire', async () => {
+        vi.useFakeTimers();
+        try {
+            const mock = createTokenEndpoint(120);
+            const manager = createOAuth2TokenManager({ tokenUrl, clientId: 'c', clientSecret: 's', expiryMargin: 20_000, fetchInit: { fetch: mock.fetch } });
+
+            expect((await manager.getAccessToken()).unwrap()).toBe('access-1');
+
+            vi.advanceTimersByTime(99_000);
+            expect((await manager.getAccessToken()).unwrap()).toBe('access-1');
+
+            vi.advanceTimersByTime(1_000);
+            expect((await manager.getAccessToken()).unwrap()).toBe('access-2');
+            expect(mock.calls).toHaveLength(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('should keep tokens without expires_in until invalidated', async () => {
+        const mock = createTokenEndpoint(undefined);
+        const manager = createOAuth2TokenManager({ tokenUrl, clientId: 'c', clientSecret: 's', fetchInit: { fetch: mock.fetch } });
+
+        await manager.getAccessToken();
+        expect((await manager.getAccessToken()).unwrap()).toBe('access-1');
+
+        manager.invalidate();
+        expect((await manager.getAccessToken()).unwrap()).toBe('access-2');
+    });
+
+    it('should share a single token request between concurrent callers', async () => {
+        const mock = createTokenEndpoint();
+        const manager = createOAuth2TokenManager({ tokenUrl, clientId: 'c', clientSecret: 's', fetchInit: { fetch: mock.fetch } });
+
+        const tokens = await Promise.all([1, 2, 3].map(() => manager.getAccessToken()));
+
+        expect(tokens.map(token => token.unwrap())).toEqual(['access-1', 'access-1', 'access-1']);
+        expect(mock.calls).toHaveLength(1);
+    });
+
+    it('should use and rotate refresh tokens', async () => {
+        const mock = createTokenEndpoint(0);
+        const onToken = vi.fn();
+        const manager = createOAuth2TokenManager({
+            tokenUrl,
+            clientId: 'c',
+            clientSecret: 's',
+            grant: 'refresh_token',
+            refreshToken: 'refresh-0',
+            expiryMargin: 0,
+            fetchInit: { fetch: mock.fetch },
+            onToken,
+        });
+
+        await manager.getAccessToken();
+        await manager.getAccessToken();
+
+        expect(mock.calls.map(call => params(call)['refresh_token'])).toEqual(['refresh-0', 'refresh-1']);
+        expect(params(mock.calls[0])['grant_type']).toBe('refresh_token');
+        expect(onToken).toHaveBeenLastCalledWith({
+            accessToken: 'access-2',
+            tokenType: 'Bearer',
+            expiresIn: 0,
+            refreshToken: 'refresh-2',
+            scope: 'read',
+        });
+    });
+
+    it('should ignore errors thrown by onToken', async () => {
+        const mock = createTokenEndpoint();
+        const manager = createOAuth2TokenManager({
+            tokenUrl,
+            clientId: 'c',
+            fetchInit: { fetch: mock.fetch },
+            onToken: () => {
+                throw new Error('storage full');
+            },
+        });
+
+        expect((await manager.getAccessToken()).unwrap()).toBe('access-1');
+    });
+
+    it('should parse OAuth2 error responses', async () => {
+        const mock = createMockFetch().post(tokenUrl, {
+            status: 401,
+            json: { error: 'invalid_client', error_description: 'Unknown client', error_uri: 'https://auth.test/errors' },
+            headers: { 'www-authenticate': 'Basic' },
+        });
+        const manager = createOAuth2TokenManager({ tokenUrl, clientId: 'c', clientSecret: 's', fetchInit: { fetch: mock.fetch } });
+
+        const err = (await manager.getAccessToken()).unwrapErr() as OAuth2Error;
+
+        expect(err).toBeInstanceOf(OAuth2Error);
+        expect(err).toBeInstanceOf(FetchError);
+        expect(err.name).toBe('OAuth2Error');
+        expect(err.message).toBe('invalid_client: Unknown client');
+        expect(err.error).toBe('invalid_client');
+        expect(err.errorDescription).toBe('Unknown client');
+        expect(err.errorUri).toBe('https://auth.test/errors');
+        expect(err.status).toBe(401);
+        expect(err.headers.get('www-authenticate')).toBe('Basic');
+    });
+
+    it('should return other token endpoint failures as they are', async () => {
+        const mock = createMockFetch()
+            .route({ url: tokenUrl, times: 1 }, { status: 503, body: 'unavailable' })
+            .route({ url: tokenUrl, times: 1 }, { status: 400, json: { message: 'bad' } })
+            .route({ url: tokenUrl, times: 1 }, { json: { token_type: 'Bearer' } })
+            .route({ url: tokenUrl, times: 1 }, { status: 400, json: { error: 'invalid_scope' } });
+        const manager = createOAuth2TokenManager({ tokenUrl, clientId: 'c', fetchInit: { fetch: mock.fetch } });
+
+        expect(((await manager.getAccessToken()).unwrapErr() as FetchError).status).toBe(503);
+        expect((await manager.getAccessToken()).unwrapErr()).not.toBeInstanceOf(OAuth2Error);
+        expect((await manager.getAccessToken()).unwrapErr()).toBeInstanceOf(FetchValidationError);
+        expect((await manager.getAccessToken()).unwrapErr().message).toBe('invalid_scope');
+    });
+
+    it('should authenticate client requests and renew the token on 401', async () => {
+        const mock = createTokenEndpoint().get(`${ apiUrl }/*`, call => {
+            return call.request.headers.get('authorization') === 'Bearer access-2'
+                ? { json: { ok: true } }
+                : { status: 401 };
+        });
+        const manager = createOAuth2TokenManager({ tokenUrl, clientId: 'c', clientSecret: 's', fetchInit: { fetch: mock.fetch } });
+        const api = createFetchT({ baseURL: `${ apiUrl }/`, fetch: mock.fetch, auth: manager });
+
+        const res = await api('invoices', { responseType: 'json' });
+
+        expect(res.unwrap()).toEqual({ ok: true });
+        expect(mock.calls.map(call => `${ call.method } ${ call.url.host }`)).toEqual([
+            'POST auth.test',
+            'GET api.test',
+            'POST auth.test',
+            'GET api.test',
+        ]);
+        expect((await manager.getAccessToken()).unwrap()).toBe('access-2');
+    });
+
+    it('should return token errors from authenticated requests', async () => {
+        const mock = createMockFetch().post(tokenUrl, { status: 400, json: { error: 'invalid_grant' } });
+        const manager = createOAuth2TokenManager({ tokenUrl, clientId: 'c', fetchInit: { fetch: mock.fetch } });
+        const api = createFetchT({ baseURL: `${ apiUrl }/`, fetch: mock.fetch, auth: manager });
+
+        const err = (await api('invoices')).unwrapErr();
+
+        expect(err).toBeInstanceOf(OAuth2Error);
+        expect(mock.calls).toHaveLength(1);
+    });
+
+    it('should throw for invalid options', () => {
+        const valid: OAuth2TokenManagerOptions = { tokenUrl, clientId: 'c' };
+
+        expect(() => createOAuth2TokenManager({ ...valid, tokenUrl: 'not a url' })).toThrow('Invalid URL: not a url');
+        expect(() => createOAuth2TokenManager({ ...valid, clientId: 1 as never })).toThrow('clientId must be a string but received number');
+        expect(() => createOAuth2TokenManager({ ...valid, grant: 'password' as never })).toThrow('grant must be one of client_credentials, refresh_token but received password');
+        expect(() => createOAuth2TokenManager({ ...valid, grant: 'refresh_token' })).toThrow('refreshToken is required for the refresh_token grant');
+        expect(() => createOAuth2TokenManager({ ...valid, clientAuth: 'jwt' as never })).toThrow('clientAuth must be one of basic, body but received jwt');
+        expect(() => createOAuth2TokenManager({ ...valid, expiryMargin: -1 })).toThrow('expiryMargin must be a non-negative number but received -1');
+        expect(() => createOAuth2TokenManager({ ...valid, onToken: 'log' as never })).toThrow('onToken callback must be a function but received string');
+    });
+});
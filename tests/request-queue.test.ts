@@ -0,0 +1,223 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ABORT_ERROR, createFetchT, createRequestQueue, fetchT, TIMEOUT_ERROR, type FetchRequestQueue } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+const otherUrl = 'http://other.test';
+
+// Concurrency observed by the /slow handlers
+let inFlight = 0;
+let maxInFlight = 0;
+const started: string[] = [];
+
+const slowHandler = (ms: number) => async ({ request }: { request: Request; }) => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    started.push(request.url);
+    await new Promise(resolve => setTimeout(resolve, ms));
+    inFlight--;
+    return new HttpResponse('ok');
+};
+
+const server = setupServer(
+    http.get(`${baseUrl}/slow`, slowHandler(50)),
+    http.get(`${baseUrl}/slower`, slowHandler(150)),
+    http.get(`${otherUrl}/slow`, slowHandler(50)),
+    http.get(`${baseUrl}/stream`, ({ request }) => {
+        started.push(request.url);
+        const chunks = ['a', 'b'];
+        return new HttpResponse(new ReadableStream({
+            async pull(controller) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+                const chunk = chunks.shift();
+                if (chunk == null) {
+                    controller.close();
+                } else {
+                    controller.enqueue(new TextEncoder().encode(chunk));
+                }
+            },
+        }));
+    }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => {
+    server.resetHandlers();
+    inFlight = 0;
+    maxInFlight = 0;
+    started.length = 0;
+});
+afterAll(() => server.close());
+
+function request(queue: FetchRequestQueue, url = `${ baseUrl }/slow`) {
+    return fetchT(url, { queue, responseType: 'text' });
+}
+
+describe('createRequestQueue', () => {
+    it('should cap concurrent requests', async () => {
+        const queue = createRequestQueue({ concurrency: 2 });
+
+        const pending = Array.from({ length: 5 }, () => request(queue));
+        expect(queue.active).toBe(2);
+        expect(queue.pending).toBe(3);
+
+        const results = await Promise.all(pending);
+
+        expect(results.every(res => res.unwrap() === 'ok')).toBe(true);
+        expect(maxInFlight).toBe(2);
+        expect(queue.active).toBe(0);
+        expect(queue.pending).toBe(0);
+    });
+
+    it('should cap concurrent requests per origin without blocking other origins', async () => {
+        const queue = createRequestQueue({ concurrency: 10, perOrigin: 1 });
+
+        const pending = [
+            request(queue),
+            request(queue),
+            request(queue, `${ otherUrl }/slow`),
+        ];
+        expect(queue.active).toBe(2);
+        expect(queue.pending).toBe(1);
+
+        await Promise.all(pending);
+
+        expect(maxInFlight).toBe(2);
+        expect(started.map(url => new URL(url).origin)).toEqual([baseUrl, otherUrl, baseUrl]);
+    });
+
+    it('should start waiting requests in order', async () => {
+        const queue = createRequestQueue({ concurrency: 1 });
+
+        await Promise.all([1, 2, 3].map(i => request(queue, `${ baseUrl }/slow?i=${ i }`)));
+
+        expect(started.map(url => new URL(url).search)).toEqual(['?i=1', '?i=2', '?i=3']);
+    });
+
+    it('should release the slot when a request fails', async () => {
+        server.use(http.get(`${baseUrl}/error`, () => HttpResponse.error()));
+        const queue = createRequestQueue({ concurrency: 1 });
+
+        const [failed, ok] = await Promise.all([
+            request(queue, `${ baseUrl }/error`),
+            request(queue),
+        ]);
+
+        expect(failed.isErr()).toBe(true);
+        expect(ok.unwrap()).toBe('ok');
+        expect(queue.active).toBe(0);
+    });
+
+    it('should abort a queued task before it starts', async () => {
+        const queue = createRequestQueue({ concurrency: 1 });
+
+        const first = request(queue);
+        const task = fetchT(`${ baseUrl }/slow?queued`, { queue, abortable: true, responseType: 'text' });
+        expect(queue.pending).toBe(1);
+
+        task.abort();
+        expect(queue.pending).toBe(0);
+        expect((await task.result).unwrapErr().name).toBe(ABORT_ERROR);
+
+        await first;
+        expect(started).toHaveLength(1);
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+        const queue = createRequestQueue();
+        const controller = new AbortController();
+        controller.abort();
+
+        const res = await fetchT(`${ baseUrl }/slow`, { queue, signal: controller.signal });
+
+        expect(res.unwrapErr().name).toBe(ABORT_ERROR);
+        expect(queue.active).toBe(0);
+        expect(started).toHaveLength(0);
+    });
+
+    it('should start the timeout after leaving the queue by default', async () => {
+        const queue = createRequestQueue({ concurrency: 1 });
+
+        const results = await Promise.all([
+            request(queue, `${ baseUrl }/slower`),
+            fetchT(`${ baseUrl }/slow`, { queue, timeout: 100, responseType: 'text' }),
+        ]);
+
+        expect(results[1].unwrap()).toBe('ok');
+    });
+
+    it('should retry timed out requests with a fresh timeout', async () => {
+        const queue = createRequestQueue({ concurrency: 1 });
+
+        const result = await fetchT(`${ baseUrl }/slower`, { queue, timeout: 50, retry: { retries: 3, delay: 0 }, responseType: 'text' });
+
+        expect(result.unwrapErr().name).toBe(TIMEOUT_ERROR);
+        expect(started).toHaveLength(4);
+        expect(queue.active).toBe(0);
+    });
+
+    it('should hold the slot until a stream is read or cancelled', async () => {
+        const queue = createRequestQueue({ concurrency: 1 });
+
+        const first = await fetchT(`${ baseUrl }/stream?i=1`, { queue, responseType: 'stream' });
+        const second = fetchT(`${ baseUrl }/stream?i=2`, { queue, responseType: 'stream' });
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(queue.active).toBe(1);
+        expect(queue.pending).toBe(1);
+        expect(started).toHaveLength(1);
+
+        expect(await new Response(first.unwrap()).text()).toBe('ab');
+
+        const stream = (await second).unwrap();
+        expect(started).toHaveLength(2);
+        expect(queue.active).toBe(1);
+
+        // Not awaited, the cancellation of a mocked body does not settle
+        stream?.cancel().catch(() => {
+            // Silently ignore stream cancel errors
+        });
+        expect(queue.active).toBe(0);
+    });
+
+    it('should include queue time in the timeout when requested', async () => {
+        const queue = createRequestQueue({ concurrency: 1 });
+
+        const results = await Promise.all([
+            request(queue, `${ baseUrl }/slower`),
+            fetchT(`${ baseUrl }/slow`, { queue, timeout: 100, timeoutIncludesQueue: true, responseType: 'text' }),
+        ]);
+
+        expect(results[1].unwrapErr().name).toBe(TIMEOUT_ERROR);
+        expect(started).toHaveLength(1);
+        expect(queue.pending).toBe(0);
+    });
+
+    it('should limit a client through its defaults', async () => {
+        const api = createFetchT({ baseURL: baseUrl, queue: createRequestQueue({ concurrency: 1 }) });
+
+        await Promise.all([api('/slow'), api('/slow'), api('/slow')]);
+
+        expect(maxInFlight).toBe(1);
+    });
+
+    it('should ignore releasing a slot twice', async () => {
+        const queue = createRequestQueue({ concurrency: 1 });
+
+        const release = await queue.acquire(`${ baseUrl }/a`);
+        const next = queue.acquire(`${ baseUrl }/b`);
+        release();
+        release();
+
+        (await next)();
+        expect(queue.active).toBe(0);
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => createRequestQueue({ concurrency: 0 })).toThrow('concurrency must be a positive integer but received 0');
+        expect(() => createRequestQueue({ perOrigin: 1.5 })).toThrow('perOrigin must be a positive integer but received 1.5');
+        expect(() => fetchT(`${ baseUrl }/slow`, { queue: {} as FetchRequestQueue })).toThrow('queue must be a FetchRequestQueue');
+        expect(() => fetchT(`${ baseUrl }/slow`, { timeoutIncludesQueue: 'yes' as unknown as boolean })).toThrow('timeoutIncludesQueue must be a boolean but received string');
+    });
+});
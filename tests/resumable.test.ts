@@ -0,0 +1,329 @@
+import { describe, expect, it } from 'vitest';
+import { FetchError, fetchT, type FetchInit, type FetchMiddleware, type FetchResumeFallbackReason } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+const content = new Uint8Array(Array.from({ length: 100 }, (_, i) => i));
+
+interface FakeServerOptions {
+    headers?: Record<string, string>;
+    // Number of bytes sent by each response before the connection drops, `undefined` for the full body
+    cutAfter?: (number | undefined)[];
+    // Replaces the response to a range request
+    onRange?: (range: string) => Response | undefined;
+}
+
+/**
+ * Serves `content` from a middleware, honoring `Range` requests.
+ */
+function createFakeServer(options: FakeServerOptions = {}) {
+    const { headers = { 'ETag': '"v1"' }, cutAfter = [], onRange } = options;
+    const requests: { range: string | null; ifRange: string | null; }[] = [];
+
+    const middleware: FetchMiddleware = (request) => {
+        const range = request.headers.get('range');
+        requests.push({ range, ifRange: request.headers.get('if-range') });
+
+        const custom = range == null ? undefined : onRange?.(range);
+        if (custom != null) {
+            return Promise.resolve(custom);
+        }
+
+        const start = range == null ? 0 : Number(/bytes=(\d+)-/.exec(range)?.[1]);
+        const cut = cutAfter[requests.length - 1];
+        const end = cut == null ? content.length : Math.min(content.length, start + cut);
+        let sent = false;
+
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                if (!sent) {
+                    sent = true;
+                    controller.enqueue(content.slice(start, end));
+                } else if (end < content.length) {
+                    controller.error(new TypeError('connection reset'));
+                } else {
+                    controller.close();
+                }
+            },
+        });
+
+        return Promise.resolve(new Response(body, {
+            status: range == null ? 200 : 206,
+            headers: {
+                ...headers,
+                'Content-Length': String(content.length - start),
+                ...(range == null ? {} : { 'Content-Range': `bytes ${ start }-${ content.length - 1 }/${ content.length }` }),
+            },
+        }));
+    };
+
+    return { middleware, requests };
+}
+
+function download(server: ReturnType<typeof createFakeServer>, init: Omit<FetchInit, 'abortable' | 'responseType'> = {}) {
+    const fallbacks: FetchResumeFallbackReason[] = [];
+    const result = fetchT(`${ baseUrl }/file.bin`, {
+        resumable: true,
+        retry: 3,
+        onResumeFallback: reason => fallbacks.push(reason),
+        middleware: [server.middleware],
+        ...init,
+        responseType: 'bytes',
+    });
+
+    return { result, fallbacks };
+}
+
+describe('resumable', () => {
+    it('should resume an interrupted download with Range and If-Range', async () => {
+        const server = createFakeServer({ cutAfter: [40, 30] });
+
+        const { result, fallbacks } = download(server);
+
+        expect((await result).unwrap()).toEqual(content);
+        expect(server.requests).toEqual([
+            { range: null, ifRange: null },
+            { range: 'bytes=40-', ifRange: '"v1"' },
+            { range: 'bytes=70-', ifRange: '"v1"' },
+        ]);
+        expect(fallbacks).toEqual([]);
+    });
+
+    it('should use Last-Modified when there is no strong ETag', async () => {
+        const lastModified = 'Wed, 21 Oct 2026 07:28:00 GMT';
+        const server = createFakeServer({ headers: { 'ETag': 'W/"weak"', 'Last-Modified': lastModified }, cutAfter: [10] });
+
+        const { result } = download(server);
+
+        expect((await result).isOk()).toBe(true);
+        expect(server.requests[1]).toEqual({ range: 'bytes=10-', ifRange: lastModified });
+    });
+
+    it('should resume a stream while it is being consumed', async () => {
+        const server = createFakeServer({ cutAfter: [50] });
+
+        const res = await fetchT(`${ baseUrl }/file.bin`, {
+            responseType: 'stream',
+            resumable: true,
+            retry: 1,
+            middleware: [server.middleware],
+        });
+
+        const bytes = new Uint8Array(await new Response(res.unwrap()).arrayBuffer());
+        expect(bytes).toEqual(content);
+        expect(server.requests).toHaveLength(2);
+    });
+
+    it('should follow retry count, delay and onRetry for resume attempts', async () => {
+        const server = createFakeServer({ cutAfter: Array<number>(9).fill(10) });
+        const retried: number[] = [];
+
+        const { result } = download(server, {
+            retry: { retries: 2, delay: 1, onRetry: (_error, attempt) => retried.push(attempt) },
+        });
+
+        // Resume attempts count against the retries of the request
+        expect((await result).isErr()).toBe(true);
+        expect(retried).toEqual([1, 2]);
+        expect(server.requests).toHaveLength(3);
+    });
+
+    it('should share the retry budget between resume attempts and restarts', async () => {
+        const noValidator = createFakeServer({ headers: {}, cutAfter: Array<number>(9).fill(10) });
+        const changing = createFakeServer({
+            cutAfter: Array<number>(9).fill(10),
+            onRange: () => new Response(content.slice(10), { status: 206, headers: { 'ETag': '"v2"', 'Content-Range': 'bytes 10-99/100' } }),
+        });
+
+        const first = download(noValidator, { retry: 3 });
+        const second = download(changing, { retry: 3 });
+
+        expect((await first.result).isErr()).toBe(true);
+        expect(noValidator.requests).toHaveLength(4);
+        // Each range request is a retry, followed by its restart
+        expect((await second.result).isErr()).toBe(true);
+        expect(changing.requests.map(request => request.range)).toEqual([null, 'bytes=10-', null, 'bytes=10-', null, 'bytes=10-', null]);
+    });
+
+    it('should retry a failed range request according to retry.when', async () => {
+        let failures = 0;
+        const server = createFakeServer({
+            cutAfter: [20],
+            onRange: () => {
+                failures++;
+                return failures === 1 ? new Response(null, { status: 503 }) : undefined;
+            },
+        });
+
+        const { result, fallbacks } = download(server, {
+            retry: { retries: 3, when: error => !(error instanceof FetchError) || error.status === 503 },
+        });
+
+        expect((await result).unwrap()).toEqual(content);
+        expect(server.requests.map(request => request.range)).toEqual([null, 'bytes=20-', 'bytes=20-']);
+        expect(fallbacks).toEqual([]);
+    });
+
+    it('should retry a range request failing with a network error', async () => {
+        let failures = 0;
+        const server = createFakeServer({
+            cutAfter: [20],
+            onRange: () => {
+                failures++;
+                if (failures === 1) {
+                    throw new TypeError('Failed to fetch');
+                }
+                return undefined;
+            },
+        });
+
+        const { result } = download(server);
+
+        expect((await result).unwrap()).toEqual(content);
+        expect(failures).toBe(2);
+    });
+
+    it('should restart from the beginning when the server ignores ranges', async () => {
+        const server = createFakeServer({
+            cutAfter: [30],
+            onRange: () => new Response(content, { status: 200, headers: { 'ETag': '"v1"' } }),
+        });
+
+        const retried: number[] = [];
+
+        const { result, fallbacks } = download(server, {
+            retry: { retries: 3, onRetry: (_error, attempt) => retried.push(attempt) },
+        });
+
+        // The full response to the range request is the restart
+        expect((await result).unwrap()).toEqual(content);
+        expect(fallbacks).toEqual(['range-ignored']);
+        expect(server.requests.map(request => request.range)).toEqual([null, 'bytes=30-']);
+        expect(retried).toEqual([1]);
+    });
+
+    it('should restart from the beginning when the validator changed', async () => {
+        const server = createFakeServer({
+            cutAfter: [30],
+            onRange: () => new Response(content, { status: 200, headers: { 'ETag': '"v2"' } }),
+        });
+
+        const { result, fallbacks } = download(server);
+
+        expect((await result).unwrap()).toEqual(content);
+        expect(fallbacks).toEqual(['validator-changed']);
+        expect(server.requests).toHaveLength(2);
+    });
+
+    it('should restart when a partial response has another validator or range', async () => {
+        const changed = createFakeServer({
+            cutAfter: [30],
+            onRange: () => new Response(content.slice(30), { status: 206, headers: { 'ETag': '"v2"', 'Content-Range': 'bytes 30-99/100' } }),
+        });
+        const wrongRange = createFakeServer({
+            cutAfter: [30],
+            onRange: () => new Response(content, { status: 206, headers: { 'ETag': '"v1"', 'Content-Range': 'bytes 0-99/100' } }),
+        });
+
+        const retried: number[] = [];
+
+        const first = download(changed, { retry: { retries: 3, onRetry: (_error, attempt) => retried.push(attempt) } });
+        const second = download(wrongRange);
+
+        expect((await first.result).unwrap()).toEqual(content);
+        expect(first.fallbacks).toEqual(['validator-changed']);
+        expect(changed.requests.map(request => request.range)).toEqual([null, 'bytes=30-', null]);
+        expect(retried).toEqual([1]);
+        expect((await second.result).unwrap()).toEqual(content);
+        expect(second.fallbacks).toEqual(['invalid-content-range']);
+    });
+
+    it('should restart without a range request when there is no validator', async () => {
+        const server = createFakeServer({ headers: {}, cutAfter: [30] });
+        const retried: number[] = [];
+
+        const start = Date.now();
+        const { result, fallbacks } = download(server, {
+            retry: { retries: 3, delay: 100, onRetry: (_error, attempt) => retried.push(attempt) },
+        });
+
+        expect((await result).unwrap()).toEqual(content);
+        expect(fallbacks).toEqual(['no-validator']);
+        expect(server.requests.map(request => request.range)).toEqual([null, null]);
+        // A single retry, waiting once
+        expect(retried).toEqual([1]);
+        expect(Date.now() - start).toBeLessThan(200);
+    });
+
+    it('should not resume content-encoded responses', async () => {
+        const server = createFakeServer({ headers: { 'ETag': '"v1"', 'Content-Encoding': 'gzip' }, cutAfter: [30] });
+
+        const { result, fallbacks } = download(server);
+
+        expect((await result).unwrap()).toEqual(content);
+        expect(fallbacks).toEqual(['no-validator']);
+    });
+
+    it('should error the stream when a consumed stream cannot be resumed', async () => {
+        const server = createFakeServer({ headers: {}, cutAfter: [30] });
+        const fallbacks: FetchResumeFallbackReason[] = [];
+
+        const res = await fetchT(`${ baseUrl }/file.bin`, {
+            responseType: 'stream',
+            resumable: true,
+            retry: 1,
+            onResumeFallback: reason => fallbacks.push(reason),
+            middleware: [server.middleware],
+        });
+
+        await expect(new Response(res.unwrap()).arrayBuffer()).rejects.toThrow('connection reset');
+        expect(fallbacks).toEqual(['no-validator']);
+    });
+
+    it('should not resume after the task is aborted', async () => {
+        const server = createFakeServer({ cutAfter: [30] });
+
+        const task = fetchT(`${ baseUrl }/file.bin`, {
+            abortable: true,
+            responseType: 'stream',
+            resumable: true,
+            retry: { retries: 1, delay: 50 },
+            middleware: [server.middleware],
+        });
+        const stream = (await task.result).unwrap();
+
+        const reading = new Response(stream).arrayBuffer();
+        setTimeout(() => task.abort(), 10);
+
+        await expect(reading).rejects.toThrow('connection reset');
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('should keep the original response metadata', async () => {
+        const server = createFakeServer();
+
+        const res = await fetchT(`${ baseUrl }/file.bin`, { resumable: true, middleware: [server.middleware] });
+        const response = res.unwrap();
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('etag')).toBe('"v1"');
+        expect(new Uint8Array(await response.arrayBuffer())).toEqual(content);
+    });
+
+    it('should ignore errors thrown by onResumeFallback', async () => {
+        const server = createFakeServer({ headers: {}, cutAfter: [30] });
+
+        const { result } = download(server, {
+            onResumeFallback: () => {
+                throw new Error('boom');
+            },
+        });
+
+        expect((await result).unwrap()).toEqual(content);
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => fetchT(`${ baseUrl }/file.bin`, { resumable: 'yes' as unknown as boolean })).toThrow('resumable must be a boolean but received string');
+        expect(() => fetchT(`${ baseUrl }/file.bin`, { resumable: true, method: 'POST' })).toThrow('resumable can only be used with GET requests but received POST');
+        expect(() => fetchT(`${ baseUrl }/file.bin`, { onResumeFallback: 1 as unknown as () => void })).toThrow('onResumeFallback callback must be a function but received number');
+    });
+});
@@ -0,0 +1,285 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ABORT_ERROR, fetchSegmented, FetchError, type FetchProgress, type SegmentedFetchOptions } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+const file = new Uint8Array(Array.from({ length: 1000 }, (_, i) => i % 256));
+
+// Range headers received by the file handler
+let ranges: (string | null)[] = [];
+// If-Range headers received by the weak ETag handler
+let ifRanges: (string | null)[] = [];
+// Statuses to answer the next range requests with, e.g. to make a segment fail once
+let failures: number[] = [];
+
+const fileHeaders = {
+    'Accept-Ranges': 'bytes',
+    'Content-Type': 'application/octet-stream',
+    'ETag': '"v1"',
+};
+
+/**
+ * Headers of the weak ETag files, `with-date.bin` also has a `Last-Modified`.
+ */
+function getWeakHeaders(name: string): Record<string, string> {
+    return {
+        'Accept-Ranges': 'bytes',
+        'Content-Length': String(file.length),
+        'ETag': 'W/"v1"',
+        ...name === 'with-date.bin' && { 'Last-Modified': 'Mon, 19 Oct 2026 08:00:00 GMT' },
+    };
+}
+
+const server = setupServer(
+    http.head(`${baseUrl}/file.bin`, () => {
+        return new HttpResponse(null, { headers: { ...fileHeaders, 'Content-Length': String(file.length) } });
+    }),
+
+    http.get(`${baseUrl}/file.bin`, async ({ request }) => {
+        const range = request.headers.get('range');
+        ranges.push(range);
+
+        const status = failures.shift();
+        if (status != null) {
+            return new HttpResponse(null, { status });
+        }
+
+        const match = /bytes=(\d+)-(\d+)/.exec(range ?? '');
+        if (match == null || request.headers.get('if-range') !== fileHeaders.ETag) {
+            return new HttpResponse(file, { headers: { ...fileHeaders, 'Content-Length': String(file.length) } });
+        }
+
+        const start = Number(match[1]);
+        const end = Number(match[2]);
+        // Later segments answer first, to check reassembly order
+        await new Promise(resolve => setTimeout(resolve, (file.length - start) / 50));
+
+        return new HttpResponse(file.slice(start, end + 1), {
+            status: 206,
+            headers: {
+                ...fileHeaders,
+                'Content-Length': String(end - start + 1),
+                'Content-Range': `bytes ${ start }-${ end }/${ file.length }`,
+            },
+        });
+    }),
+
+    // A server without range support
+    http.head(`${baseUrl}/plain.bin`, () => new HttpResponse(null, { headers: { 'Content-Length': String(file.length) } })),
+    http.get(`${baseUrl}/plain.bin`, ({ request }) => {
+        ranges.push(request.headers.get('range'));
+        return new HttpResponse(file, { headers: { 'Content-Length': String(file.length) } });
+    }),
+
+    // A server with a weak ETag, only honoring If-Range with a strong validator
+    http.head(`${baseUrl}/weak/:name`, ({ params }) => new HttpResponse(null, { headers: getWeakHeaders(params['name'] as string) })),
+    http.get(`${baseUrl}/weak/:name`, ({ request, params }) => {
+        const headers = getWeakHeaders(params['name'] as string);
+        const range = request.headers.get('range');
+        const ifRange = request.headers.get('if-range');
+        ranges.push(range);
+        ifRanges.push(ifRange);
+
+        const match = /bytes=(\d+)-(\d+)/.exec(range ?? '');
+        if (match == null || (ifRange != null && ifRange !== headers['Last-Modified'])) {
+            return new HttpResponse(file, { headers });
+        }
+
+        const start = Number(match[1]);
+        const end = Number(match[2]);
+        return new HttpResponse(file.slice(start, end + 1), {
+            status: 206,
+            headers: { ...headers, 'Content-Range': `bytes ${ start }-${ end }/${ file.length }` },
+        });
+    }),
+
+    // A server ignoring ranges although it advertises them
+    http.head(`${baseUrl}/liar.bin`, () => new HttpResponse(null, { headers: { ...fileHeaders, 'Content-Length': String(file.length) } })),
+    http.get(`${baseUrl}/liar.bin`, ({ request }) => {
+        ranges.push(request.headers.get('range'));
+        return new HttpResponse(file);
+    }),
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => {
+    server.resetHandlers();
+    ranges = [];
+    ifRanges = [];
+    failures = [];
+});
+afterAll(() => server.close());
+
+const options = { segments: 4, minSegmentSize: 100 } satisfies SegmentedFetchOptions;
+
+describe('fetchSegmented', () => {
+    it('should download concurrent ranges and reassemble a Blob', async () => {
+        const res = await fetchSegmented(`${ baseUrl }/file.bin`, options);
+        const blob = res.unwrap();
+
+        expect(blob).toBeInstanceOf(Blob);
+        expect(blob.type).toBe('application/octet-stream');
+        expect(new Uint8Array(await blob.arrayBuffer())).toEqual(file);
+        expect(ranges.sort()).toEqual(['bytes=0-249', 'bytes=250-499', 'bytes=500-749', 'bytes=750-999']);
+    });
+
+    it('should reassemble an ArrayBuffer', async () => {
+        const res = await fetchSegmented(`${ baseUrl }/file.bin`, { ...options, responseType: 'arraybuffer', segments: 3 });
+
+        expect(new Uint8Array(res.unwrap())).toEqual(file);
+        expect(ranges).toHaveLength(3);
+    });
+
+    it('should emit an ordered stream', async () => {
+        const res = await fetchSegmented(`${ baseUrl }/file.bin`, { ...options, responseType: 'stream' });
+
+        expect(new Uint8Array(await new Response(res.unwrap()).arrayBuffer())).toEqual(file);
+    });
+
+    it('should use fewer segments for small files', async () => {
+        await fetchSegmented(`${ baseUrl }/file.bin`, { segments: 8, minSegmentSize: 400 });
+
+        expect(ranges).toHaveLength(3);
+    });
+
+    it('should fall back to a single request without range support', async () => {
+        const res = await fetchSegmented(`${ baseUrl }/plain.bin`, { ...options, responseType: 'arraybuffer' });
+
+        expect(new Uint8Array(res.unwrap())).toEqual(file);
+        expect(ranges).toEqual([null]);
+    });
+
+    it('should fall back to a single request for content-encoded responses', async () => {
+        server.use(
+            http.head(`${baseUrl}/encoded.bin`, () => new HttpResponse(null, { headers: { ...fileHeaders, 'Content-Encoding': 'gzip', 'Content-Length': String(file.length) } })),
+            http.get(`${baseUrl}/encoded.bin`, ({ request }) => {
+                ranges.push(request.headers.get('range'));
+                return new HttpResponse(file);
+            }),
+        );
+
+        const res = await fetchSegmented(`${ baseUrl }/encoded.bin`, { ...options, responseType: 'arraybuffer' });
+
+        expect(new Uint8Array(res.unwrap())).toEqual(file);
+        expect(ranges).toEqual([null]);
+    });
+
+    it('should not send a weak ETag as If-Range', async () => {
+        const res = await fetchSegmented(`${ baseUrl }/weak/with-date.bin`, { ...options, responseType: 'arraybuffer' });
+
+        expect(new Uint8Array(res.unwrap())).toEqual(file);
+        expect(ifRanges).toEqual(Array(4).fill('Mon, 19 Oct 2026 08:00:00 GMT'));
+
+        ifRanges = [];
+        const weakOnly = await fetchSegmented(`${ baseUrl }/weak/only.bin`, { ...options, responseType: 'arraybuffer' });
+
+        expect(new Uint8Array(weakOnly.unwrap())).toEqual(file);
+        expect(ifRanges).toEqual(Array(4).fill(null));
+    });
+
+    it('should report aggregate progress', async () => {
+        const progress: FetchProgress[] = [];
+
+        await fetchSegmented(`${ baseUrl }/file.bin`, {
+            ...options,
+            onProgress: result => result.inspect(value => progress.push(value)),
+        });
+
+        expect(progress.length).toBeGreaterThanOrEqual(4);
+        expect(progress.every(value => value.totalByteLength === file.length)).toBe(true);
+        expect(progress.at(-1)?.completedByteLength).toBe(file.length);
+    });
+
+    it('should retry a failed segment', async () => {
+        failures = [503];
+
+        const res = await fetchSegmented(`${ baseUrl }/file.bin`, { ...options, retry: { retries: 1, when: [503] } });
+
+        expect(new Uint8Array(await res.unwrap().arrayBuffer())).toEqual(file);
+        expect(ranges).toHaveLength(5);
+    });
+
+    it('should return the error of a failed segment', async () => {
+        failures = [404];
+
+        const res = await fetchSegmented(`${ baseUrl }/file.bin`, options);
+        const err = res.unwrapErr();
+
+        expect(err).toBeInstanceOf(FetchError);
+        expect((err as FetchError).status).toBe(404);
+    });
+
+    it('should error the stream with the error of a failed segment', async () => {
+        failures = [500];
+
+        const res = await fetchSegmented(`${ baseUrl }/file.bin`, { ...options, responseType: 'stream' });
+
+        await expect(new Response(res.unwrap()).arrayBuffer()).rejects.toBeInstanceOf(FetchError);
+    });
+
+    it('should return an error when a segment has another length than its range', async () => {
+        server.use(http.get(`${baseUrl}/file.bin`, ({ request }) => {
+            const [, start, end] = /bytes=(\d+)-(\d+)/.exec(request.headers.get('range') ?? '') ?? [];
+            // The right Content-Range, but the whole file as body
+            return new HttpResponse(file, {
+                status: 206,
+                headers: { ...fileHeaders, 'Content-Range': `bytes ${ start }-${ end }/${ file.length }` },
+            });
+        }));
+
+        const res = await fetchSegmented(`${ baseUrl }/file.bin`, { ...options, responseType: 'arraybuffer' });
+
+        expect(res.unwrapErr().message).toMatch(/^Expected 250 bytes for the range \d+-\d+ but received 1000$/);
+    });
+
+    it('should fall back to a single request when the ranges are ignored', async () => {
+        const res = await fetchSegmented(`${ baseUrl }/liar.bin`, { ...options, responseType: 'arraybuffer', retry: { retries: 3, delay: 0 } });
+
+        expect(new Uint8Array(res.unwrap())).toEqual(file);
+        // Segments are not retried
+        expect(ranges.length).toBeLessThanOrEqual(5);
+        expect(ranges.at(-1)).toBeNull();
+    });
+
+    it('should stream a single request when the ranges are ignored', async () => {
+        const res = await fetchSegmented(`${ baseUrl }/liar.bin`, { ...options, responseType: 'stream' });
+
+        expect(new Uint8Array(await new Response(res.unwrap()).arrayBuffer())).toEqual(file);
+        expect(ranges.at(-1)).toBeNull();
+    });
+
+    it('should return the probe error', async () => {
+        server.use(http.head(`${baseUrl}/file.bin`, () => new HttpResponse(null, { status: 404 })));
+
+        const res = await fetchSegmented(`${ baseUrl }/file.bin`, options);
+
+        expect((res.unwrapErr() as FetchError).status).toBe(404);
+        expect(ranges).toHaveLength(0);
+    });
+
+    it('should cancel every segment on abort', async () => {
+        const task = fetchSegmented(`${ baseUrl }/file.bin`, { ...options, abortable: true });
+
+        expect(task.aborted).toBe(false);
+        setTimeout(() => task.abort(), 5);
+
+        const res = await task.result;
+        expect(task.aborted).toBe(true);
+        expect(res.unwrapErr().name).toBe(ABORT_ERROR);
+    });
+
+    it('should return a FetchTask with the requested type', async () => {
+        const task = fetchSegmented(`${ baseUrl }/file.bin`, { ...options, abortable: true, responseType: 'arraybuffer' });
+
+        expect(new Uint8Array((await task.result).unwrap())).toEqual(file);
+    });
+
+    it('should throw for invalid options', () => {
+        expect(() => fetchSegmented(`${ baseUrl }/file.bin`, { responseType: 'text' as 'blob' })).toThrow('responseType must be one of blob, arraybuffer, stream but received text');
+        expect(() => fetchSegmented(`${ baseUrl }/file.bin`, { segments: 0 })).toThrow('segments must be a positive integer but received 0');
+        expect(() => fetchSegmented(`${ baseUrl }/file.bin`, { minSegmentSize: 1.5 })).toThrow('minSegmentSize must be a positive integer but received 1.5');
+        expect(() => fetchSegmented(`${ baseUrl }/file.bin`, { onProgress: 1 as unknown as () => void })).toThrow('onProgress callback must be a function but received number');
+        expect(() => fetchSegmented(`${ baseUrl }/file.bin`, { timeout: -1 })).toThrow();
+    });
+});
@@ -0,0 +1,244 @@
+import { http, HttpResponse } from 'msw';
+import { setupServer } from 'msw/node';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { FetchError, fetchT, type FetchSSEMessage } from '../src/mod.ts';
+
+const baseUrl = 'http://mock.test';
+const encoder = new TextEncoder();
+
+/**
+ * Creates an event stream response sending `chunks` in order, optionally left open.
+ */
+function eventStream(chunks: (string | Uint8Array)[], keepOpen = false): HttpResponse<ReadableStream> {
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const chunk of chunks) {
+                controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+            }
+            if (!keepOpen) {
+                controller.close();
+            }
+        },
+    });
+
+    return new HttpResponse(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function useStream(...chunks: string[]): void {
+    server.use(http.get(`${baseUrl}/events`, () => eventStream(chunks)));
+}
+
+async function collect(iterable: AsyncIterable<FetchSSEMessage>): Promise<FetchSSEMessage[]> {
+    const messages: FetchSSEMessage[] = [];
+    for await (const message of iterable) {
+        messages.push(message);
+    }
+    return messages;
+}
+
+const server = setupServer();
+
+beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+describe('responseType sse', () => {
+    it('should parse messages with event, data, id and retry fields', async () => {
+        useStream(
+            'data: hello\n\n',
+            'event: update\ndata: {"a":1}\nid: 42\nretry: 5000\n\n',
+            'data: second\n\n',
+        );
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse' });
+
+        expect(await collect(res.unwrap())).toEqual([
+            { event: 'message', data: 'hello', id: '', retry: undefined },
+            { event: 'update', data: '{"a":1}', id: '42', retry: 5000 },
+            { event: 'message', data: 'second', id: '42', retry: undefined },
+        ]);
+    });
+
+    it('should join data lines and strip a single leading space', async () => {
+        useStream('data:first\ndata:  second\ndata\n\n');
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse' });
+
+        expect((await collect(res.unwrap()))[0].data).toBe('first\n second\n');
+    });
+
+    it('should handle CRLF, CR and LF line endings split across chunks', async () => {
+        useStream('data: a\r', '\n\r\ndata: b\r\rdata: c\n', '\n');
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse' });
+
+        expect((await collect(res.unwrap())).map(message => message.data)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should decode UTF-8 split across chunks and skip the BOM', async () => {
+        const bytes = encoder.encode('﻿data: 你好\n\n');
+        server.use(http.get(`${baseUrl}/events`, () => eventStream([bytes.slice(0, 9), bytes.slice(9)])));
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse' });
+
+        expect(await collect(res.unwrap())).toEqual([{ event: 'message', data: '你好', id: '', retry: undefined }]);
+    });
+
+    it('should ignore comments, unknown fields, invalid ids and retries, and empty messages', async () => {
+        useStream(
+            ': keep-alive\n\n',
+            'event: ignored\n\n',
+            'id: 1\nfoo: bar\nretry: soon\ndata: x\n\n',
+            'id: 2\0\ndata: y\n\n',
+            'data: incomplete',
+        );
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse' });
+
+        expect(await collect(res.unwrap())).toEqual([
+            { event: 'message', data: 'x', id: '1', retry: undefined },
+            { event: 'message', data: 'y', id: '1', retry: undefined },
+        ]);
+    });
+
+    it('should yield nothing for a response without body', async () => {
+        server.use(http.get(`${baseUrl}/events`, () => new HttpResponse(null, { status: 200 })));
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse' });
+
+        expect(await collect(res.unwrap())).toEqual([]);
+    });
+
+    it('should throw from the iterator when the stream fails without reconnection', async () => {
+        server.use(http.get(`${baseUrl}/events`, () => {
+            const stream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(encoder.encode('data: a\n\n'));
+                    controller.error(new Error('connection reset'));
+                },
+            });
+            return new HttpResponse(stream);
+        }));
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse' });
+
+        await expect(collect(res.unwrap())).rejects.toThrow();
+    });
+
+    it('should reconnect with Last-Event-ID using the server retry interval', async () => {
+        const lastEventIds: (string | null)[] = [];
+        server.use(http.get(`${baseUrl}/events`, ({ request }) => {
+            lastEventIds.push(request.headers.get('last-event-id'));
+            switch (lastEventIds.length) {
+                case 1: return eventStream(['retry: 10\nid: 1\ndata: a\n\n']);
+                case 2: return eventStream(['id: 2\ndata: b\n\n']);
+                default: return new HttpResponse(null, { status: 204 });
+            }
+        }));
+
+        const start = Date.now();
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse', sse: { reconnect: true, retry: 60_000 } });
+        const messages = await collect(res.unwrap());
+
+        expect(messages.map(message => message.data)).toEqual(['a', 'b']);
+        expect(lastEventIds).toEqual([null, '1', '2']);
+        expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('should reconnect after network errors', async () => {
+        let requests = 0;
+        server.use(http.get(`${baseUrl}/events`, () => {
+            requests++;
+            switch (requests) {
+                case 1: return eventStream(['data: a\n\n']);
+                case 2: return HttpResponse.error();
+                case 3: return eventStream(['data: b\n\n']);
+                default: return new HttpResponse(null, { status: 204 });
+            }
+        }));
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse', sse: { reconnect: true, retry: 0 } });
+
+        expect((await collect(res.unwrap())).map(message => message.data)).toEqual(['a', 'b']);
+        expect(requests).toBe(4);
+    });
+
+    it('should throw a FetchError when a reconnect fails with an error status', async () => {
+        let requests = 0;
+        server.use(http.get(`${baseUrl}/events`, () => {
+            requests++;
+            return requests === 1
+                ? eventStream(['data: a\n\n'])
+                : new HttpResponse('gone', { status: 410, statusText: 'Gone' });
+        }));
+
+        const res = await fetchT(`${ baseUrl }/events`, { responseType: 'sse', sse: { reconnect: true, retry: 0 } });
+        const iterator = res.unwrap();
+
+        expect((await iterator.next()).value).toMatchObject({ data: 'a' });
+        const err = await iterator.next().catch((error: unknown) => error);
+        expect(err).toBeInstanceOf(FetchError);
+        expect((err as FetchError).status).toBe(410);
+    });
+
+    it('should stop the stream and pending reconnects on abort', async () => {
+        let requests = 0;
+        server.use(http.get(`${baseUrl}/events`, () => {
+            requests++;
+            return eventStream(['data: a\n\n'], requests === 1);
+        }));
+
+        // Abort while reading an open stream
+        const task = fetchT(`${ baseUrl }/events`, { abortable: true, responseType: 'sse', sse: { reconnect: true, retry: 0 } });
+        const iterator = (await task.result).unwrap();
+
+        expect((await iterator.next()).value).toMatchObject({ data: 'a' });
+        const pending = iterator.next();
+        task.abort();
+        expect((await pending).done).toBe(true);
+        expect(requests).toBe(1);
+
+        // Abort while waiting to reconnect
+        const waiting = fetchT(`${ baseUrl }/events`, { abortable: true, responseType: 'sse', sse: { reconnect: true, retry: 60_000 } });
+        const messages = (await waiting.result).unwrap();
+
+        expect((await messages.next()).value).toMatchObject({ data: 'a' });
+        const reconnecting = messages.next();
+        setTimeout(() => waiting.abort(), 10);
+        expect((await reconnecting).done).toBe(true);
+        expect(requests).toBe(2);
+    });
+
+    it('should release the stream when iteration stops early', async () => {
+        let cancelled = false;
+        const stream = new ReadableStream({
+            start(controller) {
+                controller.enqueue(encoder.encode('data: a\n\n'));
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+
+        // Respond from middleware so the cancellation reaches the source stream directly
+        const res = await fetchT(`${ baseUrl }/events`, {
+            responseType: 'sse',
+            middleware: [() => Promise.resolve(new Response(stream))],
+        });
+
+        for await (const message of res.unwrap()) {
+            expect(message.data).toBe('a');
+            break;
+        }
+
+        expect(cancelled).toBe(true);
+    });
+
+    it('should throw for invalid sse options', () => {
+        expect(() => fetchT(`${ baseUrl }/events`, { responseType: 'text', sse: { reconnect: true } })).toThrow('sse can only be used with responseType sse but received text');
+        expect(() => fetchT(`${ baseUrl }/events`, { responseType: 'sse', sse: true as unknown as object })).toThrow('sse must be an object but received boolean');
+        expect(() => fetchT(`${ baseUrl }/events`, { responseType: 'sse', sse: { reconnect: 1 as unknown as boolean } })).toThrow('sse reconnect must be a boolean but received number');
+        expect(() => fetchT(`${ baseUrl }/events`, { responseType: 'sse', sse: { retry: '1' as unknown as number } })).toThrow('sse retry must be a number but received string');
+        expect(() => fetchT(`${ baseUrl }/events`, { responseType: 'sse', sse: { retry: -1 } })).toThrow('sse retry must be a non-negative number but received -1');
+    });
+});
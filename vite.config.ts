@@ -14,8 +14,11 @@ export default defineConfig({
         sourcemap: true,
         outDir: 'dist',
         lib: {
-            entry: 'src/mod.ts',
-            fileName: format => `main.${ format === 'esm' ? 'mjs' : 'cjs' }`,
+            entry: {
+                main: 'src/mod.ts',
+                testing: 'src/testing.ts',
+            },
+            fileName: (format, entryName) => `${ entryName }.${ format === 'esm' ? 'mjs' : 'cjs' }`,
         },
         rollupOptions: {
             output: [